@@ -0,0 +1,315 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+import { AuthRequest } from "../middleware/auth";
+import { Role, Status, User } from "../models/User";
+import { Media } from "../models/Media";
+import { EpisodeProgress } from "../models/EpisodeProgress";
+import { deleteUserData } from "../services/account.service";
+import TMDBService from "../services/tmdb.service";
+import { sendAuthorApprovedEmail, sendAuthorRejectedEmail } from "../utils/mailer";
+import { escapeRegex } from "../utils/regex";
+
+const USER_SAFE_FIELDS = "-password -otp -otpExpires -pendingEmailOtp -pendingEmailOtpExpires -resetPasswordToken -resetPasswordExpires -twoFactorSecret -twoFactorPendingSecret -twoFactorRecoveryCodes -calendarTokenHash";
+
+export const listUsers = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+        const skip = (page - 1) * limit;
+        const { q, role, status } = req.query;
+
+        const filter: any = {};
+
+        if (q && typeof q === "string" && q.trim()) {
+            const pattern = new RegExp(escapeRegex(q.trim()), "i");
+            filter.$or = [
+                { firstname: pattern },
+                { lastname: pattern },
+                { email: pattern }
+            ];
+        }
+
+        if (role && Object.values(Role).includes(role as Role)) {
+            filter.roles = role;
+        }
+
+        if (status && Object.values(Status).includes(status as Status)) {
+            filter.approved = status;
+        }
+
+        const users = await User.find(filter)
+            .select(USER_SAFE_FIELDS)
+            .sort({ createdAt: -1 })
+            .skip(skip)
+            .limit(limit)
+            .lean();
+
+        const total = await User.countDocuments(filter);
+
+        res.status(200).json({
+            message: "Users fetched successfully",
+            data: users,
+            pagination: {
+                page,
+                totalPages: Math.ceil(total / limit),
+                total,
+            },
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const getUser = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        const { userId } = req.params;
+
+        if (!mongoose.Types.ObjectId.isValid(userId)) {
+            res.status(400).json({ message: "Invalid user ID format" });
+            return;
+        }
+
+        const user = await User.findById(userId).select(USER_SAFE_FIELDS).lean();
+        if (!user) {
+            res.status(404).json({ message: "User not found" });
+            return;
+        }
+
+        const [movies, tvShows, episodes] = await Promise.all([
+            Media.countDocuments({ addedBy: userId, type: "movie" }),
+            Media.countDocuments({ addedBy: userId, type: "tv" }),
+            EpisodeProgress.countDocuments({ addedBy: userId })
+        ]);
+
+        res.status(200).json({
+            message: "User fetched successfully",
+            data: {
+                ...user,
+                library: { movies, tvShows, episodes }
+            }
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const updateUserRoles = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        const { userId } = req.params;
+        const { roles } = req.body;
+
+        if (!mongoose.Types.ObjectId.isValid(userId)) {
+            res.status(400).json({ message: "Invalid user ID format" });
+            return;
+        }
+
+        if (!Array.isArray(roles) || roles.length === 0) {
+            res.status(400).json({ message: "Roles array is required" });
+            return;
+        }
+
+        const validRoles = Object.values(Role) as string[];
+        if (!roles.every((role: string) => validRoles.includes(role))) {
+            res.status(400).json({ message: "Invalid role" });
+            return;
+        }
+
+        // Prevent an admin from locking themselves out of the admin API
+        if (userId === req.user.sub && !roles.includes(Role.ADMIN)) {
+            res.status(400).json({ message: "You cannot remove your own admin role" });
+            return;
+        }
+
+        const user = await User.findById(userId);
+        if (!user) {
+            res.status(404).json({ message: "User not found" });
+            return;
+        }
+
+        user.roles = Array.from(new Set(roles)) as Role[];
+        await user.save();
+
+        console.log(`🛡️ Roles for ${user.email} set to [${user.roles.join(", ")}] by ${req.user.sub}`);
+
+        res.status(200).json({
+            message: "User roles updated successfully",
+            data: {
+                id: user._id,
+                email: user.email,
+                roles: user.roles
+            }
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const deleteUser = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        const { userId } = req.params;
+
+        if (!mongoose.Types.ObjectId.isValid(userId)) {
+            res.status(400).json({ message: "Invalid user ID format" });
+            return;
+        }
+
+        if (userId === req.user.sub) {
+            res.status(400).json({ message: "Use the account settings to delete your own account" });
+            return;
+        }
+
+        const user = await User.findById(userId);
+        if (!user) {
+            res.status(404).json({ message: "User not found" });
+            return;
+        }
+
+        // Remove the user's library along with the account
+        const { deletedMedia, deletedEpisodes } = await deleteUserData(user._id);
+
+        console.log(`🗑️ Admin ${req.user.sub} deleted user ${user.email}`);
+
+        res.status(200).json({
+            message: "User deleted successfully",
+            data: {
+                deletedMedia,
+                deletedEpisodes
+            }
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const listPendingAuthors = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+        const skip = (page - 1) * limit;
+
+        const filter = { roles: Role.AUTHOR, approved: Status.PENDING };
+
+        // Oldest applications first so the queue is worked in order
+        const authors = await User.find(filter)
+            .select(USER_SAFE_FIELDS)
+            .sort({ createdAt: 1 })
+            .skip(skip)
+            .limit(limit)
+            .lean();
+
+        const total = await User.countDocuments(filter);
+
+        res.status(200).json({
+            message: "Pending authors fetched successfully",
+            data: authors,
+            pagination: {
+                page,
+                totalPages: Math.ceil(total / limit),
+                total,
+            },
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+// Shared by approve/reject: records the decision and notifies the applicant
+const decideAuthor = async (
+    req: AuthRequest,
+    res: Response,
+    decision: Status.APPROVED | Status.REJECTED
+): Promise<void> => {
+    const { userId } = req.params;
+    const reason = typeof req.body?.reason === "string" ? req.body.reason.trim() : undefined;
+
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+        res.status(400).json({ message: "Invalid user ID format" });
+        return;
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+        res.status(404).json({ message: "User not found" });
+        return;
+    }
+
+    if (!user.roles.includes(Role.AUTHOR)) {
+        res.status(400).json({ message: "User is not an author applicant" });
+        return;
+    }
+
+    if (user.approved !== Status.PENDING) {
+        res.status(409).json({ message: `Application already ${user.approved.toLowerCase()}` });
+        return;
+    }
+
+    user.approved = decision;
+    user.approvalDecidedBy = new mongoose.Types.ObjectId(req.user.sub as string);
+    user.approvalDecidedAt = new Date();
+    user.approvalReason = reason || undefined;
+    await user.save();
+
+    console.log(`🛡️ Author ${user.email} ${decision.toLowerCase()} by ${req.user.sub}`);
+
+    // The decision is already stored, so a mail failure should not fail the request
+    let emailSent = true;
+    try {
+        if (decision === Status.APPROVED) {
+            await sendAuthorApprovedEmail(user.email, user.firstname);
+        } else {
+            await sendAuthorRejectedEmail(user.email, user.firstname, user.approvalReason);
+        }
+    } catch (error) {
+        console.error("Failed to send author decision email:", error);
+        emailSent = false;
+    }
+
+    res.status(200).json({
+        message: decision === Status.APPROVED ? "Author approved" : "Author rejected",
+        data: {
+            id: user._id,
+            email: user.email,
+            approved: user.approved,
+            approvalDecidedBy: user.approvalDecidedBy,
+            approvalDecidedAt: user.approvalDecidedAt,
+            approvalReason: user.approvalReason,
+            emailSent
+        }
+    });
+};
+
+export const approveAuthor = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        await decideAuthor(req, res, Status.APPROVED);
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const rejectAuthor = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        await decideAuthor(req, res, Status.REJECTED);
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const getTMDBCacheStats = async (_req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        res.status(200).json({
+            message: "TMDB cache stats fetched successfully",
+            data: TMDBService.getCacheStats()
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const clearTMDBCache = async (_req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        await TMDBService.clearCache();
+        res.status(200).json({ message: "TMDB cache cleared" });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
@@ -1,16 +1,13 @@
 import { Request, Response } from "express";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import TMDBService from "../services/tmdb.service";
-import dotenv from "dotenv";
+import { recommendForUser, RecommendationStreamEvent, streamForUser } from "../services/recommendation.service";
+import { AuthRequest } from "../middleware/auth";
+import { sendUpstreamUnavailable, UpstreamUnavailable } from "../utils/resilience";
+import { RecommendationParseError } from "../utils/recommendations";
 
-dotenv.config();
-
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY as string;
-const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
-
-export const aiChat = async (req: Request, res: Response): Promise<void> => {
+export const aiChat = async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-        const { message } = req.body;
+        const { message, personalize } = req.body;
         
         if (!message || typeof message !== "string") {
             res.status(400).json({ message: "Message is required" });
@@ -19,48 +16,20 @@ export const aiChat = async (req: Request, res: Response): Promise<void> => {
 
         console.log("🤖 AI Chat Request:", message);
 
-        // Get model
-        const model = genAI.getGenerativeModel({ model: "gemini-pro" });
-        
-        // Create prompt for movie/TV show recommendations
-        const prompt = `
-        You are a movie and TV show expert assistant. Analyze the user's query and return relevant movie/TV show recommendations.
-        
-        User Query: "${message}"
-        
-        Please provide:
-        1. If the user is looking for specific content (like a movie/show), identify it and recommend similar content
-        2. If the user describes a plot/character, try to identify the actual movie/show
-        
-        Return ONLY a JSON array in this exact format:
-        [
-          {
-            "title": "Movie/TV Show Title",
-            "type": "movie" or "tv",
-            "reason": "Why you're recommending this (similar genre/plot/theme)",
-            "year": "Release year if known",
-            "keywords": ["keyword1", "keyword2", "keyword3"] for searching
-          }
-        ]
-        
-        Return maximum 5 recommendations. If you can't identify or don't have recommendations, return empty array [].
-        `;
-
-        const result = await model.generateContent(prompt);
-        const response = await result.response;
-        const text = response.text();
-        
-        console.log("🤖 AI Response:", text);
-
-        // Parse JSON from response
-        const recommendations = JSON.parse(text);
+        const { recommendations, personalized, provider } = await recommendForUser(req.user.sub, message, { personalize });
         
         res.status(200).json({
             message: "AI recommendations generated",
-            data: recommendations
+            data: recommendations,
+            personalized,
+            provider
         });
     } catch (err: any) {
         console.error("AI Chat Error:", err);
+        if (err instanceof RecommendationParseError) {
+            res.status(502).json({ message: "AI returned an unreadable response. Please try again." });
+            return;
+        }
         res.status(500).json({ 
             message: "Failed to process AI request", 
             error: err.message 
@@ -68,6 +37,65 @@ export const aiChat = async (req: Request, res: Response): Promise<void> => {
     }
 };
 
+const SSE_HEARTBEAT_MS = 15000; // Keeps proxies from closing an idle stream
+
+// Server-Sent Events version of aiChat: "text" events carry model output as it is
+// generated, then one "recommendation" event per matched pick, then "done".
+// Failures after the stream has started are sent as an "error" event.
+export const aiChatStream = async (req: AuthRequest, res: Response): Promise<void> => {
+    const message = req.query.message;
+    const personalize = req.query.personalize === "true" || req.query.personalize === "1";
+
+    if (!message || typeof message !== "string") {
+        res.status(400).json({ message: "Message is required" });
+        return;
+    }
+
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("X-Accel-Buffering", "no");
+    res.flushHeaders();
+
+    // A closed connection before we end the response means the client went away
+    const abort = new AbortController();
+    res.on("close", () => {
+        if (!res.writableEnded) {
+            console.log("🔌 AI stream closed by client, cancelling generation");
+            abort.abort();
+        }
+    });
+
+    const send = (event: string, data: unknown): void => {
+        if (abort.signal.aborted) return;
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const heartbeat = setInterval(() => {
+        if (!abort.signal.aborted) res.write(": ping\n\n");
+    }, SSE_HEARTBEAT_MS);
+
+    try {
+        console.log("🤖 AI Chat Stream Request:", message);
+
+        await streamForUser(req.user.sub, message, { personalize, signal: abort.signal }, (event: RecommendationStreamEvent) => {
+            const { type, ...data } = event;
+            send(type, data);
+        });
+    } catch (err: any) {
+        console.error("AI Chat Stream Error:", err);
+        send("error", {
+            message: err instanceof RecommendationParseError
+                ? "AI returned an unreadable response. Please try again."
+                : "Failed to process AI request",
+            error: err.message
+        });
+    } finally {
+        clearInterval(heartbeat);
+        if (!abort.signal.aborted) res.end();
+    }
+};
+
 export const aiSearchMedia = async (req: Request, res: Response): Promise<void> => {
     try {
         const { keywords, type } = req.body;
@@ -123,6 +151,10 @@ export const aiSearchMedia = async (req: Request, res: Response): Promise<void>
         });
     } catch (err: any) {
         console.error("AI Search Error:", err);
+        if (err instanceof UpstreamUnavailable) {
+            sendUpstreamUnavailable(res, err);
+            return;
+        }
         res.status(500).json({ 
             message: "Failed to search media", 
             error: err.message 
@@ -1,32 +1,53 @@
 import { Request, Response } from "express";
-import { Role, Status, User } from "../models/User"; // Removed unused IUser import
+import { Role, Status, User, Visibility } from "../models/User"; // Removed unused IUser import
 import bcrypt from "bcryptjs";
-import { signAccessToken, signRefreshToken } from "../utils/tokens";
+import { signTwoFactorChallenge, verifyRefreshToken } from "../utils/tokens";
 import { AuthRequest } from "../middleware/auth";
-import jwt from "jsonwebtoken";
 import dotenv from "dotenv";
-import { sendOTPEmail } from "../utils/mailer";
+import { sendEmailChangeOTPEmail, sendEmailChangedNoticeEmail, sendOTPEmail } from "../utils/mailer";
+import {
+    RefreshTokenError,
+    revokeAllSessions,
+    revokeSession,
+    rotateSession,
+    startSession
+} from "../utils/sessions";
+import { Session } from "../models/Session";
+import { deleteUserData } from "../services/account.service";
+import {
+    checkAuthThrottle,
+    clearAuthFailures,
+    recordAuthFailure,
+    sendTooManyAttempts
+} from "../utils/throttle";
+import { isValidVisibility, visibilityOf } from "../utils/privacy";
 dotenv.config();
 
-const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET as string;
+const OTP_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const OTP_RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute between codes
+
+const generateOTP = (): string => Math.floor(100000 + Math.random() * 900000).toString();
+
+// Seconds left before another code may be sent, 0 when allowed
+const otpCooldownRemaining = (lastSentAt?: Date): number => {
+    if (!lastSentAt) return 0;
+    const remaining = lastSentAt.getTime() + OTP_RESEND_COOLDOWN_MS - Date.now();
+    return remaining > 0 ? Math.ceil(remaining / 1000) : 0;
+};
 
 export const register = async (req: Request, res: Response): Promise<void> => {
     try {
-        const { firstname, lastname, email, password } = req.body;
+        const { firstname, lastname, email, password, role } = req.body;
 
         if (!firstname || !lastname || !email || !password) {
             res.status(400).json({ message: "All fields are required" });
             return;
         }
 
-        // ========== TEMPORARY: Only USER registration allowed ==========
-        // Comment out role field and validation for now
-        // const { role } = req.body;
-        // if (role && role !== Role.USER && role !== Role.AUTHOR) {
-        //   res.status(400).json({ message: "Invalid role" });
-        //   return;
-        // }
-        // ===============================================================
+        if (role && role !== Role.USER && role !== Role.AUTHOR) {
+            res.status(400).json({ message: "Invalid role" });
+            return;
+        }
 
         const existingUser = await User.findOne({ email });
         if (existingUser) {
@@ -36,17 +57,12 @@ export const register = async (req: Request, res: Response): Promise<void> => {
 
         const hashedPassword = await bcrypt.hash(password, 10);
 
-        // ========== TEMPORARY: Force USER role ==========
-        const userRole = Role.USER; // Hardcoded
-        const approvalStatus = Status.APPROVED; // Auto-approve all users
-
-        // Original logic (commented out for now):
-        // const userRole = role || Role.USER; // Use provided role or default to USER
-        // const approvalStatus = userRole === Role.AUTHOR ? Status.PENDING : Status.APPROVED;
-        // =================================================
+        const userRole = role || Role.USER; // Use provided role or default to USER
+        // AUTHOR accounts wait in the admin approval queue
+        const approvalStatus = userRole === Role.AUTHOR ? Status.PENDING : Status.APPROVED;
 
-        const otp = Math.floor(100000 + Math.random() * 900000).toString();
-        const otpExpires = new Date(Date.now() + 10 * 60 * 1000);
+        const otp = generateOTP();
+        const otpExpires = new Date(Date.now() + OTP_TTL_MS);
 
         const newUser = new User({
             firstname,
@@ -57,6 +73,7 @@ export const register = async (req: Request, res: Response): Promise<void> => {
             approved: approvalStatus,
             otp,
             otpExpires,
+            otpLastSentAt: new Date(),
             isEmailVerified: false
         });
 
@@ -69,8 +86,7 @@ export const register = async (req: Request, res: Response): Promise<void> => {
                 id: newUser._id,
                 email: newUser.email,
                 roles: newUser.roles,
-                // Remove role-specific message temporarily
-                // approved: newUser.approved
+                approved: newUser.approved
             }
         });
     } catch (err: any) {
@@ -81,6 +97,13 @@ export const register = async (req: Request, res: Response): Promise<void> => {
 export const verifyOTP = async (req: Request, res: Response): Promise<void> => {
     try {
         const { email, otp } = req.body;
+
+        const lockedUntil = await checkAuthThrottle("otp", email, req.ip);
+        if (lockedUntil) {
+            sendTooManyAttempts(res, lockedUntil);
+            return;
+        }
+
         const user = await User.findOne({ email });
 
         if (!user) {
@@ -89,6 +112,11 @@ export const verifyOTP = async (req: Request, res: Response): Promise<void> => {
         }
 
         if (user.otp !== otp) {
+            const lockedNow = await recordAuthFailure("otp", email, req.ip, user.email);
+            if (lockedNow) {
+                sendTooManyAttempts(res, lockedNow);
+                return;
+            }
             res.status(400).json({ message: "Invalid OTP" });
             return;
         }
@@ -102,6 +130,7 @@ export const verifyOTP = async (req: Request, res: Response): Promise<void> => {
         user.otp = undefined;
         user.otpExpires = undefined;
         await user.save();
+        await clearAuthFailures("otp", email);
 
         res.status(200).json({
             message: "Email verified successfully. You can now login."
@@ -111,12 +140,77 @@ export const verifyOTP = async (req: Request, res: Response): Promise<void> => {
     }
 };
 
+export const resendOTP = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { email } = req.body;
+
+        if (!email) {
+            res.status(400).json({ message: "Email is required" });
+            return;
+        }
+
+        const lockedUntil = await checkAuthThrottle("resend", email, req.ip);
+        if (lockedUntil) {
+            sendTooManyAttempts(res, lockedUntil);
+            return;
+        }
+
+        const user = await User.findOne({ email });
+
+        // Same answer for unknown and already verified accounts
+        if (!user || user.isEmailVerified) {
+            res.status(200).json({
+                message: "If this account is awaiting verification, a new OTP has been sent"
+            });
+            return;
+        }
+
+        const cooldown = otpCooldownRemaining(user.otpLastSentAt);
+        if (cooldown > 0) {
+            res.setHeader("Retry-After", cooldown.toString());
+            res.status(429).json({
+                message: `Please wait ${cooldown} seconds before requesting a new OTP`,
+                retryAfter: cooldown
+            });
+            return;
+        }
+
+        await recordAuthFailure("resend", email, req.ip, user.email);
+
+        const otp = generateOTP();
+        user.otp = otp;
+        user.otpExpires = new Date(Date.now() + OTP_TTL_MS);
+        user.otpLastSentAt = new Date();
+        await user.save();
+
+        await sendOTPEmail(user.email, otp);
+
+        res.status(200).json({
+            message: "If this account is awaiting verification, a new OTP has been sent"
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
 export const login = async (req: Request, res: Response): Promise<void> => {
     try {
         const { email, password } = req.body;
+
+        const lockedUntil = await checkAuthThrottle("login", email, req.ip);
+        if (lockedUntil) {
+            sendTooManyAttempts(res, lockedUntil);
+            return;
+        }
+
         const user = await User.findOne({ email });
 
         if (!user) {
+            const lockedNow = await recordAuthFailure("login", email, req.ip);
+            if (lockedNow) {
+                sendTooManyAttempts(res, lockedNow);
+                return;
+            }
             res.status(401).json({ message: "Invalid credentials" });
             return;
         }
@@ -128,17 +222,43 @@ export const login = async (req: Request, res: Response): Promise<void> => {
 
         const valid = await bcrypt.compare(password, user.password);
         if (!valid) {
+            const lockedNow = await recordAuthFailure("login", email, req.ip, user.email);
+            if (lockedNow) {
+                sendTooManyAttempts(res, lockedNow);
+                return;
+            }
             res.status(401).json({ message: "Invalid credentials" });
             return;
         }
 
+        await clearAuthFailures("login", email);
+
+        if (user.approved === Status.REJECTED) {
+            res.status(403).json({
+                message: "Account application was rejected",
+                reason: user.approvalReason
+            });
+            return;
+        }
+
         if (user.approved !== Status.APPROVED) {
             res.status(403).json({ message: "Account pending approval" });
             return;
         }
 
-        const accessToken = signAccessToken(user);
-        const refreshToken = signRefreshToken(user);
+        // Tokens are only issued by /2fa/verify once the second factor checks out
+        if (user.twoFactorEnabled) {
+            res.status(200).json({
+                message: "Two-factor authentication required",
+                data: {
+                    twoFactorRequired: true,
+                    challengeToken: signTwoFactorChallenge(user)
+                }
+            });
+            return;
+        }
+
+        const { accessToken, refreshToken, session } = await startSession(user, req);
 
         res.status(200).json({
             message: "Login successful",
@@ -146,7 +266,8 @@ export const login = async (req: Request, res: Response): Promise<void> => {
                 email: user.email,
                 roles: user.roles,
                 accessToken,
-                refreshToken
+                refreshToken,
+                sessionId: session.familyId
             }
         });
     } catch (err: any) {
@@ -169,10 +290,26 @@ export const getMyDetails = async (req: AuthRequest, res: Response): Promise<voi
             return;
         }
 
-        const { firstname, lastname, email, roles, approved, isEmailVerified } = user;
+        const { firstname, lastname, handle, email, roles, approved, isEmailVerified, pendingEmail, twoFactorEnabled } = user;
         res.status(200).json({
             message: "OK",
-            data: { firstname, lastname, email, roles, approved, isEmailVerified }
+            data: {
+                firstname,
+                lastname,
+                handle,
+                email,
+                roles,
+                approved,
+                isEmailVerified,
+                pendingEmail,
+                twoFactorEnabled,
+                calendarFeedEnabled: !!user.calendarTokenHash,
+                privacy: {
+                    profile: visibilityOf(user.privacy, "profile"),
+                    watchlist: visibilityOf(user.privacy, "watchlist"),
+                    lists: visibilityOf(user.privacy, "lists")
+                }
+            }
         });
     } catch (err: any) {
         res.status(500).json({ message: err?.message });
@@ -187,17 +324,121 @@ export const handleRefreshToken = async (req: Request, res: Response): Promise<v
             return;
         }
 
-        const payload: any = jwt.verify(token, JWT_REFRESH_SECRET);
+        let payload;
+        try {
+            payload = verifyRefreshToken(token);
+        } catch {
+            res.status(403).json({ message: "Invalid or expired token" });
+            return;
+        }
+
         const user = await User.findById(payload.sub);
         if (!user) {
             res.status(403).json({ message: "Invalid refresh token" });
             return;
         }
 
-        const accessToken = signAccessToken(user);
-        res.status(200).json({ accessToken });
+        const { accessToken, refreshToken } = await rotateSession(user, payload.fam, payload.jti, req);
+        res.status(200).json({ accessToken, refreshToken });
+    } catch (err: any) {
+        if (err instanceof RefreshTokenError) {
+            res.status(403).json({ message: err.message });
+            return;
+        }
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const logout = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { token } = req.body;
+        if (!token) {
+            res.status(400).json({ message: "Token required" });
+            return;
+        }
+
+        // An invalid or expired token has nothing left to revoke
+        try {
+            const payload = verifyRefreshToken(token);
+            await revokeSession(payload.sub, payload.fam, "logout");
+        } catch {
+            // ignore
+        }
+
+        res.status(200).json({ message: "Logged out successfully" });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const logoutAll = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const revoked = await revokeAllSessions(req.user.sub, "logout_all");
+
+        res.status(200).json({
+            message: "Logged out from all devices",
+            data: { revokedSessions: revoked }
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const getSessions = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const sessions = await Session.find({
+            user: req.user.sub,
+            revokedAt: { $exists: false },
+            expiresAt: { $gt: new Date() }
+        })
+            .sort({ lastUsedAt: -1 })
+            .lean();
+
+        res.status(200).json({
+            message: "Active sessions fetched successfully",
+            data: sessions.map((session) => ({
+                id: session.familyId,
+                device: session.device,
+                ip: session.ip,
+                createdAt: session.createdAt,
+                lastUsedAt: session.lastUsedAt,
+                expiresAt: session.expiresAt,
+                current: session.familyId === req.user.sid
+            }))
+        });
     } catch (err: any) {
-        res.status(403).json({ message: "Invalid or expired token" });
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const deleteSession = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const { sessionId } = req.params;
+        const revoked = await revokeSession(req.user.sub, sessionId, "user_revoked");
+
+        if (!revoked) {
+            res.status(404).json({ message: "Session not found" });
+            return;
+        }
+
+        res.status(200).json({ message: "Session revoked successfully" });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
     }
 };
 
@@ -213,7 +454,7 @@ export const updateProfile = async (req: AuthRequest, res: Response): Promise<vo
         }
 
         const userId = req.user.sub;
-        const { firstname, lastname } = req.body;
+        const { firstname, lastname, email } = req.body;
 
         if (!firstname || !lastname) {
             res.status(400).json({ message: "First name and last name are required" });
@@ -228,14 +469,55 @@ export const updateProfile = async (req: AuthRequest, res: Response): Promise<vo
 
         user.firstname = firstname.trim();
         user.lastname = lastname.trim();
-        await user.save();
+
+        // A new email is only stored as pending until confirmed with the OTP sent to it
+        let emailChangeRequested = false;
+        const newEmail = typeof email === "string" ? email.trim().toLowerCase() : "";
+
+        if (newEmail && newEmail !== user.email) {
+            if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(newEmail)) {
+                res.status(400).json({ message: "Invalid email address" });
+                return;
+            }
+
+            if (await User.exists({ email: newEmail })) {
+                res.status(400).json({ message: "Email already registered" });
+                return;
+            }
+
+            // Applies to any address, so switching addresses can't be used to send mail to many inboxes
+            const cooldown = otpCooldownRemaining(user.otpLastSentAt);
+            if (cooldown > 0) {
+                res.setHeader("Retry-After", cooldown.toString());
+                res.status(429).json({
+                    message: `Please wait ${cooldown} seconds before requesting a new OTP`,
+                    retryAfter: cooldown
+                });
+                return;
+            }
+
+            const otp = generateOTP();
+            user.pendingEmail = newEmail;
+            user.pendingEmailOtp = otp;
+            user.pendingEmailOtpExpires = new Date(Date.now() + OTP_TTL_MS);
+            user.otpLastSentAt = new Date();
+            emailChangeRequested = true;
+
+            await user.save();
+            await sendEmailChangeOTPEmail(newEmail, otp);
+        } else {
+            await user.save();
+        }
 
         res.status(200).json({
-            message: "Profile updated successfully",
+            message: emailChangeRequested
+                ? "Profile updated. Please confirm your new email with the OTP we sent to it."
+                : "Profile updated successfully",
             data: {
                 firstname: user.firstname,
                 lastname: user.lastname,
-                email: user.email
+                email: user.email,
+                pendingEmail: user.pendingEmail
             }
         });
     } catch (err: any) {
@@ -243,6 +525,172 @@ export const updateProfile = async (req: AuthRequest, res: Response): Promise<vo
     }
 };
 
+const HANDLE_PATTERN = /^[a-z0-9_]{3,30}$/;
+const RESERVED_HANDLES = ["admin", "api", "me", "public", "support", "settings", "cinetime"];
+
+export const updateHandle = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const handle = typeof req.body.handle === "string" ? req.body.handle.trim().toLowerCase() : "";
+
+        if (!HANDLE_PATTERN.test(handle)) {
+            res.status(400).json({ message: "Handle must be 3-30 characters: letters, numbers or underscores" });
+            return;
+        }
+
+        if (RESERVED_HANDLES.includes(handle)) {
+            res.status(400).json({ message: "This handle is not available" });
+            return;
+        }
+
+        if (await User.exists({ handle, _id: { $ne: req.user.sub } })) {
+            res.status(409).json({ message: "This handle is already taken" });
+            return;
+        }
+
+        const user = await User.findByIdAndUpdate(req.user.sub, { handle }, { new: true }).select("handle");
+
+        if (!user) {
+            res.status(404).json({ message: "User not found" });
+            return;
+        }
+
+        res.status(200).json({ message: "Handle updated successfully", data: { handle: user.handle } });
+    } catch (err: any) {
+        // Lost a race with another user claiming the same handle
+        if (err?.code === 11000) {
+            res.status(409).json({ message: "This handle is already taken" });
+            return;
+        }
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const updatePrivacy = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const update: Record<string, Visibility> = {};
+
+        for (const key of ["profile", "watchlist", "lists"] as const) {
+            const value = req.body[key];
+            if (value === undefined) continue;
+
+            if (!isValidVisibility(value)) {
+                res.status(400).json({ message: `${key} must be one of: ${Object.values(Visibility).join(", ")}` });
+                return;
+            }
+            update[`privacy.${key}`] = value;
+        }
+
+        if (Object.keys(update).length === 0) {
+            res.status(400).json({ message: "Nothing to update" });
+            return;
+        }
+
+        const user = await User.findByIdAndUpdate(req.user.sub, { $set: update }, { new: true }).select("handle privacy");
+
+        if (!user) {
+            res.status(404).json({ message: "User not found" });
+            return;
+        }
+
+        res.status(200).json({
+            message: user.handle
+                ? "Privacy settings updated"
+                : "Privacy settings updated. Choose a handle so others can find your profile.",
+            data: {
+                profile: visibilityOf(user.privacy, "profile"),
+                watchlist: visibilityOf(user.privacy, "watchlist"),
+                lists: visibilityOf(user.privacy, "lists")
+            }
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const confirmEmailChange = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const { otp } = req.body;
+        if (!otp) {
+            res.status(400).json({ message: "OTP is required" });
+            return;
+        }
+
+        const user = await User.findById(req.user.sub);
+        if (!user) {
+            res.status(404).json({ message: "User not found" });
+            return;
+        }
+
+        if (!user.pendingEmail || !user.pendingEmailOtp) {
+            res.status(400).json({ message: "No email change in progress" });
+            return;
+        }
+
+        const lockedUntil = await checkAuthThrottle("otp", user.email, req.ip);
+        if (lockedUntil) {
+            sendTooManyAttempts(res, lockedUntil);
+            return;
+        }
+
+        if (user.pendingEmailOtp !== otp) {
+            const lockedNow = await recordAuthFailure("otp", user.email, req.ip, user.email);
+            if (lockedNow) {
+                sendTooManyAttempts(res, lockedNow);
+                return;
+            }
+            res.status(400).json({ message: "Invalid OTP" });
+            return;
+        }
+
+        if (user.pendingEmailOtpExpires && new Date() > user.pendingEmailOtpExpires) {
+            res.status(400).json({ message: "OTP expired" });
+            return;
+        }
+
+        // The address may have been taken since the change was requested
+        if (await User.exists({ email: user.pendingEmail, _id: { $ne: user._id } })) {
+            res.status(400).json({ message: "Email already registered" });
+            return;
+        }
+
+        const oldEmail = user.email;
+        user.email = user.pendingEmail;
+        user.pendingEmail = undefined;
+        user.pendingEmailOtp = undefined;
+        user.pendingEmailOtpExpires = undefined;
+        await user.save();
+        await clearAuthFailures("otp", oldEmail);
+
+        try {
+            await sendEmailChangedNoticeEmail(oldEmail, user.email);
+        } catch (error) {
+            console.error("Failed to send email change notice:", error);
+        }
+
+        res.status(200).json({
+            message: "Email changed successfully",
+            data: { email: user.email }
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
 export const changePassword = async (req: AuthRequest, res: Response): Promise<void> => {
     try {
         if (!req.user) {
@@ -281,6 +729,9 @@ export const changePassword = async (req: AuthRequest, res: Response): Promise<v
         user.password = hashedPassword;
         await user.save();
 
+        // Sign out every other device, keep the one that changed the password
+        await revokeAllSessions(user._id, "password_change", req.user.sid);
+
         res.status(200).json({
             message: "Password changed successfully"
         });
@@ -317,8 +768,8 @@ export const deleteAccount = async (req: AuthRequest, res: Response): Promise<vo
             return;
         }
 
-        // Delete user
-        await User.findByIdAndDelete(userId);
+        // Delete the user and everything they own
+        await deleteUserData(userId);
 
         res.status(200).json({
             message: "Account deleted successfully"
@@ -0,0 +1,96 @@
+import { Request, Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import {
+    buildCalendarFeed,
+    CalendarQueryError,
+    findAirings,
+    parseCalendarRange,
+    revokeCalendarToken,
+    rotateCalendarToken
+} from "../services/calendar.service";
+
+// Episodes airing in a date range, for shows in the caller's library
+export const getCalendar = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const { from, to } = parseCalendarRange(req.query);
+        const airings = await findAirings(req.user.sub, from, to);
+
+        res.status(200).json({
+            message: "Calendar fetched successfully",
+            data: airings,
+            range: { from, to }
+        });
+    } catch (err: any) {
+        if (err instanceof CalendarQueryError) {
+            res.status(400).json({ message: err.message });
+            return;
+        }
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+// Creates the subscription URL, replacing any earlier one
+export const createCalendarFeed = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const token = await rotateCalendarToken(req.user.sub);
+
+        console.log(`📅 Calendar feed URL issued for user ${req.user.sub}`);
+
+        res.status(201).json({
+            message: "Calendar feed created. Keep this URL private: anyone with it can see your calendar",
+            data: {
+                url: `${req.protocol}://${req.get("host")}/api/v1/public/calendar/${token}.ics`
+            }
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const deleteCalendarFeed = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        if (!(await revokeCalendarToken(req.user.sub))) {
+            res.status(404).json({ message: "No calendar feed to delete" });
+            return;
+        }
+
+        res.status(200).json({ message: "Calendar feed deleted" });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+// The secret URL is the only credential; calendar apps can't log in
+export const getCalendarFeed = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const calendar = await buildCalendarFeed(String(req.params.token || ""));
+
+        if (!calendar) {
+            res.status(404).json({ message: "Calendar not found" });
+            return;
+        }
+
+        res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+        res.setHeader("Content-Disposition", "inline; filename=\"cinetime.ics\"");
+        res.setHeader("Cache-Control", "private, max-age=3600");
+        res.setHeader("X-Robots-Tag", "noindex");
+        res.status(200).send(calendar);
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
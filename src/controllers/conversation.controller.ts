@@ -0,0 +1,214 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+import { AuthRequest } from "../middleware/auth";
+import { Conversation, IConversation, IConversationMessage } from "../models/Conversation";
+import { recommendForUser } from "../services/recommendation.service";
+import { conversationTitle, trimToBudget } from "../services/conversation.service";
+import { RecommendationParseError } from "../utils/recommendations";
+
+const describeReply = (titles: string[]): string =>
+    titles.length > 0
+        ? `Here are ${titles.length} suggestion${titles.length === 1 ? "" : "s"}: ${titles.join(", ")}.`
+        : "I couldn't find anything new that matches. Try rephrasing or asking for something different.";
+
+// Answers `message` with the earlier turns as context, then stores both turns
+const replyInConversation = async (
+    conversation: IConversation,
+    userId: string,
+    message: string,
+    personalize: boolean
+) => {
+    const history = trimToBudget(conversation.messages);
+    const { recommendations, personalized, provider } = await recommendForUser(userId, message, { personalize, history });
+
+    const userTurn: IConversationMessage = { role: "user", content: message, recommendations: [], createdAt: new Date() };
+    const assistantTurn: IConversationMessage = {
+        role: "assistant",
+        content: describeReply(recommendations.map((rec) => rec.title)),
+        recommendations,
+        createdAt: new Date()
+    };
+
+    conversation.messages.push(userTurn, assistantTurn);
+    conversation.lastMessageAt = assistantTurn.createdAt;
+    await conversation.save();
+
+    return {
+        conversationId: conversation._id,
+        title: conversation.title,
+        reply: assistantTurn,
+        contextTurns: history.length,
+        personalized,
+        provider
+    };
+};
+
+const sendReplyError = (res: Response, err: any): void => {
+    console.error("AI Conversation Error:", err);
+    if (err instanceof RecommendationParseError) {
+        res.status(502).json({ message: "AI returned an unreadable response. Please try again." });
+        return;
+    }
+    res.status(500).json({ message: "Failed to process AI request", error: err?.message });
+};
+
+export const startConversation = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const { message, personalize } = req.body;
+
+        if (!message || typeof message !== "string") {
+            res.status(400).json({ message: "Message is required" });
+            return;
+        }
+
+        const conversation = new Conversation({
+            user: req.user.sub,
+            title: conversationTitle(message),
+            messages: []
+        });
+
+        const data = await replyInConversation(conversation, req.user.sub, message, !!personalize);
+
+        res.status(201).json({ message: "Conversation started", data });
+    } catch (err: any) {
+        sendReplyError(res, err);
+    }
+};
+
+export const continueConversation = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const { conversationId } = req.params;
+        const { message, personalize } = req.body;
+
+        if (!mongoose.Types.ObjectId.isValid(conversationId)) {
+            res.status(400).json({ message: "Invalid conversation ID format" });
+            return;
+        }
+
+        if (!message || typeof message !== "string") {
+            res.status(400).json({ message: "Message is required" });
+            return;
+        }
+
+        const conversation = await Conversation.findOne({ _id: conversationId, user: req.user.sub });
+
+        if (!conversation) {
+            res.status(404).json({ message: "Conversation not found" });
+            return;
+        }
+
+        const data = await replyInConversation(conversation, req.user.sub, message, !!personalize);
+
+        res.status(200).json({ message: "AI recommendations generated", data });
+    } catch (err: any) {
+        sendReplyError(res, err);
+    }
+};
+
+export const listConversations = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+        const skip = (page - 1) * limit;
+        const filter = { user: new mongoose.Types.ObjectId(req.user.sub) };
+
+        // Summaries only; messages are fetched per conversation
+        const conversations = await Conversation.aggregate([
+            { $match: filter },
+            { $sort: { lastMessageAt: -1 } },
+            { $skip: skip },
+            { $limit: limit },
+            {
+                $project: {
+                    title: 1,
+                    lastMessageAt: 1,
+                    createdAt: 1,
+                    messageCount: { $size: "$messages" }
+                }
+            }
+        ]);
+
+        const total = await Conversation.countDocuments(filter);
+
+        res.status(200).json({
+            message: "Conversations fetched successfully",
+            data: conversations,
+            pagination: {
+                page,
+                totalPages: Math.ceil(total / limit),
+                total,
+            },
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const getConversation = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const { conversationId } = req.params;
+
+        if (!mongoose.Types.ObjectId.isValid(conversationId)) {
+            res.status(400).json({ message: "Invalid conversation ID format" });
+            return;
+        }
+
+        const conversation = await Conversation.findOne({ _id: conversationId, user: req.user.sub }).lean();
+
+        if (!conversation) {
+            res.status(404).json({ message: "Conversation not found" });
+            return;
+        }
+
+        res.status(200).json({ message: "Conversation fetched successfully", data: conversation });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const deleteConversation = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const { conversationId } = req.params;
+
+        if (!mongoose.Types.ObjectId.isValid(conversationId)) {
+            res.status(400).json({ message: "Invalid conversation ID format" });
+            return;
+        }
+
+        const result = await Conversation.deleteOne({ _id: conversationId, user: req.user.sub });
+
+        if (result.deletedCount === 0) {
+            res.status(404).json({ message: "Conversation not found" });
+            return;
+        }
+
+        res.status(200).json({ message: "Conversation deleted successfully" });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
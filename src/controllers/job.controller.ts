@@ -0,0 +1,39 @@
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { findJob } from "../services/job.service";
+
+export const getJobStatus = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const job = await findJob(req.params.jobId);
+
+        // Other users' jobs look the same as missing ones
+        if (!job || job.owner?.toString() !== req.user.sub) {
+            res.status(404).json({ message: "Job not found" });
+            return;
+        }
+
+        res.status(200).json({
+            message: "Job fetched successfully",
+            data: {
+                id: job._id,
+                type: job.type,
+                status: job.status,
+                attempts: job.attempts,
+                maxAttempts: job.maxAttempts,
+                progress: job.progress || null,
+                result: job.result || null,
+                lastError: job.lastError || null,
+                nextAttemptAt: job.status === "queued" ? job.runAt : null,
+                createdAt: job.createdAt,
+                finishedAt: job.finishedAt || null
+            }
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
@@ -0,0 +1,376 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+import { AuthRequest } from "../middleware/auth";
+import { List, IList, MAX_LIST_ITEMS } from "../models/List";
+import { Media } from "../models/Media";
+import TMDBService from "../services/tmdb.service";
+import { sendUpstreamUnavailable, UpstreamUnavailable } from "../utils/resilience";
+import { isValidVisibility } from "../utils/privacy";
+
+const findOwnList = async (userId: string, listId: string) => {
+    if (!mongoose.Types.ObjectId.isValid(listId)) return null;
+    return List.findOne({ _id: listId, owner: userId });
+};
+
+// Adds the caller's watchlist state to each item, since lists don't require ownership
+const withWatchlistState = async (list: IList, userId: string) => {
+    const owned = list.items.length === 0 ? [] : await Media.find({
+        addedBy: userId,
+        $or: list.items.map((item) => ({ tmdbId: item.tmdbId, type: item.type }))
+    }).select("tmdbId type watchStatus");
+
+    const statusByKey = new Map(owned.map((media) => [`${media.type}:${media.tmdbId}`, media.watchStatus]));
+    const data = list.toObject();
+
+    return {
+        ...data,
+        items: data.items.map((item: any) => ({
+            ...item,
+            inWatchlist: statusByKey.has(`${item.type}:${item.tmdbId}`),
+            watchStatus: statusByKey.get(`${item.type}:${item.tmdbId}`) || null
+        }))
+    };
+};
+
+const validateListFields = (body: any, partial: boolean): string | null => {
+    const { name, description, coverImage, visibility } = body;
+
+    if (!partial || name !== undefined) {
+        if (!name || typeof name !== "string" || !name.trim()) return "List name is required";
+        if (name.trim().length > 100) return "List name must be at most 100 characters";
+    }
+    if (description !== undefined && description !== null && typeof description !== "string") {
+        return "Description must be a string";
+    }
+    if (coverImage !== undefined && coverImage !== null && typeof coverImage !== "string") {
+        return "Cover image must be a string";
+    }
+    // null means "use my default list visibility"
+    if (visibility !== undefined && visibility !== null && !isValidVisibility(visibility)) {
+        return "Visibility must be private, link, public or null";
+    }
+
+    return null;
+};
+
+export const createList = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const error = validateListFields(req.body, false);
+        if (error) {
+            res.status(400).json({ message: error });
+            return;
+        }
+
+        const { name, description, coverImage, visibility } = req.body;
+
+        const list = await List.create({
+            owner: req.user.sub,
+            name: name.trim(),
+            description: description?.trim() || undefined,
+            coverImage: coverImage || undefined,
+            visibility: visibility || null,
+            items: []
+        });
+
+        res.status(201).json({ message: "List created successfully", data: list });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const getMyLists = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        // Summaries with the first few posters for a preview
+        const lists = await List.aggregate([
+            { $match: { owner: new mongoose.Types.ObjectId(req.user.sub) } },
+            { $sort: { updatedAt: -1 } },
+            {
+                $project: {
+                    name: 1,
+                    slug: 1,
+                    visibility: 1,
+                    description: 1,
+                    coverImage: 1,
+                    createdAt: 1,
+                    updatedAt: 1,
+                    itemCount: { $size: "$items" },
+                    previewPosters: { $slice: ["$items.posterPath", 4] }
+                }
+            }
+        ]);
+
+        res.status(200).json({ message: "Lists fetched successfully", data: lists });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const getList = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const list = await findOwnList(req.user.sub, req.params.listId);
+
+        if (!list) {
+            res.status(404).json({ message: "List not found" });
+            return;
+        }
+
+        res.status(200).json({
+            message: "List fetched successfully",
+            data: await withWatchlistState(list, req.user.sub)
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const updateList = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const error = validateListFields(req.body, true);
+        if (error) {
+            res.status(400).json({ message: error });
+            return;
+        }
+
+        const list = await findOwnList(req.user.sub, req.params.listId);
+
+        if (!list) {
+            res.status(404).json({ message: "List not found" });
+            return;
+        }
+
+        const { name, description, coverImage, visibility } = req.body;
+
+        if (name !== undefined) list.name = name.trim();
+        if (visibility !== undefined) list.visibility = visibility;
+        if (description !== undefined) list.description = description?.trim() || undefined;
+        if (coverImage !== undefined) list.coverImage = coverImage || undefined;
+
+        await list.save();
+
+        res.status(200).json({ message: "List updated successfully", data: list });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const deleteList = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const { listId } = req.params;
+
+        if (!mongoose.Types.ObjectId.isValid(listId)) {
+            res.status(404).json({ message: "List not found" });
+            return;
+        }
+
+        const result = await List.deleteOne({ _id: listId, owner: req.user.sub });
+
+        if (result.deletedCount === 0) {
+            res.status(404).json({ message: "List not found" });
+            return;
+        }
+
+        res.status(200).json({ message: "List deleted successfully" });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const addListItem = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const { tmdbId, type, note, position } = req.body;
+        let { title, posterPath, releaseDate } = req.body;
+
+        if (!tmdbId || (type !== "movie" && type !== "tv")) {
+            res.status(400).json({ message: "TMDB ID and type (movie or tv) are required" });
+            return;
+        }
+
+        const list = await findOwnList(req.user.sub, req.params.listId);
+
+        if (!list) {
+            res.status(404).json({ message: "List not found" });
+            return;
+        }
+
+        if (list.items.some((item) => item.tmdbId === Number(tmdbId) && item.type === type)) {
+            res.status(400).json({ message: "Already in this list" });
+            return;
+        }
+
+        if (list.items.length >= MAX_LIST_ITEMS) {
+            res.status(400).json({ message: `A list can hold at most ${MAX_LIST_ITEMS} items` });
+            return;
+        }
+
+        // Clients usually send what they already show; otherwise look the title up
+        if (!title) {
+            try {
+                const details = type === "movie"
+                    ? await TMDBService.getMovieDetails(Number(tmdbId))
+                    : await TMDBService.getTVDetails(Number(tmdbId));
+                title = details.title || details.name;
+                posterPath = posterPath || details.poster_path;
+                releaseDate = releaseDate || details.release_date || details.first_air_date;
+            } catch (error) {
+                if (error instanceof UpstreamUnavailable) throw error;
+            }
+        }
+        if (!title) {
+            res.status(404).json({ message: "Title not found on TMDB" });
+            return;
+        }
+
+        const item = list.items.create({
+            tmdbId: Number(tmdbId),
+            type,
+            title,
+            posterPath: posterPath || undefined,
+            releaseDate: releaseDate || undefined,
+            note: typeof note === "string" ? note.trim() : undefined,
+            addedAt: new Date()
+        });
+
+        // Appended by default; `position` (0-based) inserts it elsewhere
+        const index = Number.isInteger(position) && position >= 0 && position < list.items.length
+            ? position
+            : list.items.length;
+        list.items.splice(index, 0, item);
+
+        await list.save();
+
+        res.status(201).json({ message: "Item added to list", data: list.items[index] });
+    } catch (err: any) {
+        if (err instanceof UpstreamUnavailable) {
+            sendUpstreamUnavailable(res, err);
+            return;
+        }
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const updateListItem = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const { note } = req.body;
+
+        if (note !== null && typeof note !== "string") {
+            res.status(400).json({ message: "Note must be a string or null" });
+            return;
+        }
+
+        const list = await findOwnList(req.user.sub, req.params.listId);
+        const item = list?.items.id(req.params.itemId);
+
+        if (!list || !item) {
+            res.status(404).json({ message: "List item not found" });
+            return;
+        }
+
+        item.note = note ? note.trim() : undefined;
+        await list.save();
+
+        res.status(200).json({ message: "List item updated", data: item });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const removeListItem = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const list = await findOwnList(req.user.sub, req.params.listId);
+        const item = list?.items.id(req.params.itemId);
+
+        if (!list || !item) {
+            res.status(404).json({ message: "List item not found" });
+            return;
+        }
+
+        item.deleteOne();
+        await list.save();
+
+        res.status(200).json({ message: "Item removed from list" });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+// Takes the complete new order; anything else would leave the list ambiguous
+export const reorderListItems = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const { itemIds } = req.body;
+
+        if (!Array.isArray(itemIds)) {
+            res.status(400).json({ message: "itemIds array is required" });
+            return;
+        }
+
+        const list = await findOwnList(req.user.sub, req.params.listId);
+
+        if (!list) {
+            res.status(404).json({ message: "List not found" });
+            return;
+        }
+
+        const current = list.items.map((item) => item._id.toString());
+        const requested = itemIds.map(String);
+
+        if (requested.length !== current.length
+            || new Set(requested).size !== requested.length
+            || requested.some((id) => !current.includes(id))) {
+            res.status(400).json({ message: "itemIds must contain every item of the list exactly once" });
+            return;
+        }
+
+        const byId = new Map(list.items.map((item) => [item._id.toString(), item.toObject()]));
+        list.set("items", requested.map((id) => byId.get(id)));
+        await list.save();
+
+        res.status(200).json({ message: "List reordered", data: list.items });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
@@ -1,9 +1,32 @@
 import { Request, Response } from "express";
-import { Media } from "../models/Media";
+import { IMedia, Media } from "../models/Media";
 import { AuthRequest } from "../middleware/auth";
 import TMDBService, { TMDBMovie, TMDBTVShow } from "../services/tmdb.service";
 import mongoose from "mongoose";
-import { Episode } from "../models/Episode";
+import {
+    deleteShowProgress,
+    findTrackedEpisode,
+    findTrackedEpisodes,
+    saveSeasonToCatalog,
+    setEpisodeStatus,
+    updateTrackedShowStats,
+    updateTVShowStats
+} from "../services/episode.service";
+import { sendUpstreamUnavailable, UpstreamUnavailable } from "../utils/resilience";
+import { recommendFromLibrary } from "../services/discovery.service";
+import { extractMetadata, MediaMetadata } from "../services/metadata.service";
+import { queryWatchlist, WatchlistQueryError } from "../services/watchlist.service";
+import { recordActivity } from "../services/social.service";
+import { enqueueTVIngest } from "../services/ingestion.service";
+import { getOnDeck, getUpNext } from "../services/upnext.service";
+
+// Snapshot of a library entry for activity events
+const activityMedia = (media: IMedia) => ({
+    tmdbId: media.tmdbId,
+    type: media.type,
+    title: media.title,
+    posterPath: media.posterPath
+});
 
 export const searchMedia = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -40,6 +63,10 @@ export const searchMedia = async (req: Request, res: Response): Promise<void> =>
             },
         });
     } catch (err: any) {
+        if (err instanceof UpstreamUnavailable) {
+            sendUpstreamUnavailable(res, err);
+            return;
+        }
         res.status(500).json({ message: err?.message });
     }
 };
@@ -77,6 +104,10 @@ export const getMediaDetails = async (req: Request, res: Response): Promise<void
             },
         });
     } catch (err: any) {
+        if (err instanceof UpstreamUnavailable) {
+            sendUpstreamUnavailable(res, err);
+            return;
+        }
         res.status(500).json({ message: err?.message });
     }
 };
@@ -109,12 +140,17 @@ export const addToWatchlist = async (req: AuthRequest, res: Response): Promise<v
 
         // Get media details from TMDB
         let tmdbDetails: any = {};
+        let metadata: Partial<MediaMetadata> = {};
         let watchTimeMinutes = 0;
+        // The body title is only a fallback for when TMDB has no answer
+        let tmdbTitle: string | undefined;
 
         try {
             if (type === "movie") {
                 const details = await TMDBService.getMovieDetails(tmdbId);
+                tmdbTitle = details.title;
                 watchTimeMinutes = details.runtime || 120;
+                metadata = extractMetadata("movie", details);
                 tmdbDetails = {
                     vote_average: details.vote_average,
                     vote_count: details.vote_count,
@@ -124,11 +160,13 @@ export const addToWatchlist = async (req: AuthRequest, res: Response): Promise<v
             } else {
                 // For TV shows, get episode count and calculate total time
                 const details = await TMDBService.getTVDetails(tmdbId);
+                tmdbTitle = details.name;
                 const episodeCount = details.number_of_episodes || 1;
                 const episodeRuntime = details.episode_run_time?.[0] || 45; // Average 45 mins per episode
 
                 // Calculate total time for all episodes
                 watchTimeMinutes = episodeCount * episodeRuntime;
+                metadata = extractMetadata("tv", details);
 
                 tmdbDetails = {
                     vote_average: details.vote_average,
@@ -138,13 +176,15 @@ export const addToWatchlist = async (req: AuthRequest, res: Response): Promise<v
                 };
             }
         } catch (error) {
+            // Don't store made-up runtimes while TMDB is down
+            if (error instanceof UpstreamUnavailable) throw error;
             console.error("Failed to fetch TMDB details:", error);
             watchTimeMinutes = type === "movie" ? 120 : 45;
         }
 
         const newMedia = new Media({
             tmdbId,
-            title,
+            title: tmdbTitle || title,
             type,
             posterPath: posterPath || "",
             releaseDate: releaseDate || "",
@@ -154,16 +194,25 @@ export const addToWatchlist = async (req: AuthRequest, res: Response): Promise<v
             vote_average: tmdbDetails.vote_average,
             vote_count: tmdbDetails.vote_count,
             overview: tmdbDetails.overview,
-            backdrop_path: tmdbDetails.backdrop_path
+            backdrop_path: tmdbDetails.backdrop_path,
+            ...metadata
         });
 
         await newMedia.save();
+        // Followers only see titles TMDB vouched for
+        if (tmdbTitle) {
+            await recordActivity(req.user.sub, "added", activityMedia(newMedia));
+        }
 
         res.status(201).json({
             message: "Added to watchlist successfully",
             data: newMedia,
         });
     } catch (err: any) {
+        if (err instanceof UpstreamUnavailable) {
+            sendUpstreamUnavailable(res, err);
+            return;
+        }
         res.status(500).json({ message: err?.message });
     }
 };
@@ -175,43 +224,28 @@ export const getWatchlist = async (req: AuthRequest, res: Response): Promise<voi
             return;
         }
 
-        const page = parseInt(req.query.page as string) || 1;
-        const limit = parseInt(req.query.limit as string) || 20;
-        const skip = (page - 1) * limit;
-        const status = req.query.status as string;
-
-        const filter: any = { addedBy: req.user.sub };
-        if (status && ["planned", "watching", "completed"].includes(status)) {
-            filter.watchStatus = status;
-        }
-
-        const watchlist = await Media.find(filter)
-            .sort({ createdAt: -1 })
-            .skip(skip)
-            .limit(limit);
-
-        const total = await Media.countDocuments(filter);
-
-        // Calculate total watch time
-        const totalWatchTime = await Media.aggregate([
-            { $match: filter },
-            { $group: { _id: null, total: { $sum: "$watchTimeMinutes" } } },
-        ]);
+        const result = await queryWatchlist(req.user.sub, req.query);
 
         res.status(200).json({
             message: "Watchlist fetched successfully",
-            data: watchlist,
+            data: result.items,
             stats: {
-                totalWatchTime: totalWatchTime[0]?.total || 0,
-                totalItems: total,
+                totalWatchTime: result.totalWatchTime,
+                totalItems: result.total,
             },
             pagination: {
-                page,
-                totalPages: Math.ceil(total / limit),
-                total,
+                page: result.page,
+                totalPages: Math.ceil(result.total / result.limit),
+                total: result.total,
+                limit: result.limit,
+                nextCursor: result.nextCursor,
             },
         });
     } catch (err: any) {
+        if (err instanceof WatchlistQueryError) {
+            res.status(400).json({ message: err.message });
+            return;
+        }
         res.status(500).json({ message: err?.message });
     }
 };
@@ -254,6 +288,9 @@ export const updateWatchStatus = async (req: AuthRequest, res: Response): Promis
 
         console.log(`📋 Found media: ${media.title}, Current status: ${media.watchStatus}`);
 
+        const previousStatus = media.watchStatus;
+        const previousRating = media.rating;
+
         if (watchStatus && ["planned", "watching", "completed"].includes(watchStatus)) {
             console.log(`🔄 Changing status from ${media.watchStatus} to ${watchStatus}`);
             media.watchStatus = watchStatus;
@@ -269,6 +306,13 @@ export const updateWatchStatus = async (req: AuthRequest, res: Response): Promis
 
         await media.save();
 
+        if (media.watchStatus === "completed" && previousStatus !== "completed") {
+            await recordActivity(req.user.sub, "finished", activityMedia(media));
+        }
+        if (media.rating !== undefined && media.rating !== previousRating) {
+            await recordActivity(req.user.sub, "rated", activityMedia(media), { rating: media.rating });
+        }
+
         console.log(`✅ Saved: ${media.title} is now ${media.watchStatus}`);
         console.log(`📊 Watch time: ${media.watchTimeMinutes} minutes`);
 
@@ -308,13 +352,10 @@ export const removeFromWatchlist = async (req: AuthRequest, res: Response): Prom
             return;
         }
 
-        // If it's a TV show, delete all episodes associated with it
+        // If it's a TV show, drop the user's episode progress (the shared catalog stays)
         if (media.type === "tv") {
-            await Episode.deleteMany({
-                tmdbId: media.tmdbId,
-                addedBy: req.user.sub,
-            });
-            console.log(`🗑️ Deleted all episodes for TV show ${media.title} (ID: ${media.tmdbId})`);
+            await deleteShowProgress(req.user.sub, media.tmdbId);
+            console.log(`🗑️ Deleted episode progress for TV show ${media.title} (ID: ${media.tmdbId})`);
         }
 
         // Delete the media from watchlist
@@ -339,17 +380,14 @@ export const deleteTVShowEpisodes = async (req: AuthRequest, res: Response): Pro
 
         const { tmdbId } = req.params;
 
-        // Delete all episodes for this TV show and user
-        const result = await Episode.deleteMany({
-            tmdbId: Number(tmdbId),
-            addedBy: req.user.sub,
-        });
+        // Resets this user's progress for the show
+        const deletedCount = await deleteShowProgress(req.user.sub, Number(tmdbId));
 
-        console.log(`🗑️ Deleted ${result.deletedCount} episodes for TV show ID: ${tmdbId}`);
+        console.log(`🗑️ Deleted ${deletedCount} episode progress rows for TV show ID: ${tmdbId}`);
 
         res.status(200).json({
             message: "TV show episodes deleted successfully",
-            deletedCount: result.deletedCount,
+            deletedCount,
         });
     } catch (err: any) {
         console.error("Delete TV show episodes error:", err);
@@ -373,9 +411,7 @@ export const getWatchlistStats = async (req: AuthRequest, res: Response): Promis
             .lean();
 
         // Get all episodes
-        const allEpisodes = await Episode.find({ addedBy: userId })
-            .select('watchStatus runtime')
-            .lean();
+        const allEpisodes = await findTrackedEpisodes(userId);
 
         console.log(`📋 Found ${allMediaItems.length} media items and ${allEpisodes.length} episodes`);
 
@@ -525,6 +561,76 @@ export const getTrending = async (req: Request, res: Response): Promise<void> =>
                 total_results: trending.total_results,
             },
         });
+    } catch (err: any) {
+        if (err instanceof UpstreamUnavailable) {
+            sendUpstreamUnavailable(res, err);
+            return;
+        }
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+// Content-based picks from the caller's library (no AI model involved)
+export const getRecommendations = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const type = req.query.type === "movie" || req.query.type === "tv" ? req.query.type : undefined;
+        const limit = Math.min(parseInt(req.query.limit as string) || 20, 50);
+
+        const recommendations = await recommendFromLibrary(req.user.sub, { type, limit });
+
+        res.status(200).json({
+            message: "Recommendations fetched successfully",
+            data: recommendations,
+        });
+    } catch (err: any) {
+        if (err instanceof UpstreamUnavailable) {
+            sendUpstreamUnavailable(res, err);
+            return;
+        }
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+// Next episode of every show the caller is watching, most recently watched first
+export const getUpNextEpisodes = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const shows = await getUpNext(req.user.sub);
+
+        res.status(200).json({
+            message: "Up next fetched successfully",
+            data: shows
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+// Shows with an episode ready plus planned movies, in one list
+export const getOnDeckItems = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const items = await getOnDeck(req.user.sub, {
+            limit: parseInt(req.query.limit as string) || undefined
+        });
+
+        res.status(200).json({
+            message: "On deck fetched successfully",
+            data: items
+        });
     } catch (err: any) {
         res.status(500).json({ message: err?.message });
     }
@@ -546,6 +652,10 @@ export const getPopularMovies = async (req: Request, res: Response): Promise<voi
             },
         });
     } catch (err: any) {
+        if (err instanceof UpstreamUnavailable) {
+            sendUpstreamUnavailable(res, err);
+            return;
+        }
         res.status(500).json({ message: err?.message });
     }
 };
@@ -565,18 +675,10 @@ export const getTVShowEpisodes = async (req: AuthRequest, res: Response): Promis
             return;
         }
 
-        const filter: any = {
-            addedBy: req.user.sub,
-            tmdbId: Number(tmdbId)
-        };
-
-        if (season) {
-            filter.seasonNumber = Number(season);
-        }
-
-        const episodes = await Episode.find(filter)
-            .sort({ seasonNumber: 1, episodeNumber: 1 })
-            .lean();
+        const episodes = await findTrackedEpisodes(req.user.sub, {
+            tmdbId: Number(tmdbId),
+            seasonNumber: season ? Number(season) : undefined
+        });
 
         // Group episodes by season
         const episodesBySeason: Record<number, any[]> = {};
@@ -611,51 +713,30 @@ export const fetchTVShowEpisodes = async (req: AuthRequest, res: Response): Prom
 
         const { tmdbId, season } = req.params;
 
-        // Fetch episodes from TMDB
+        // Fetch episodes from TMDB into the shared catalog
         const tmdbResponse = await TMDBService.getTVSeasonDetails(Number(tmdbId), Number(season));
+        const episodeCount = await saveSeasonToCatalog(Number(tmdbId), Number(season), tmdbResponse.episodes);
 
-        // Store episodes in database
-        const episodesToSave = tmdbResponse.episodes.map((episode: any) => ({
-            tmdbId: Number(tmdbId),
-            seasonNumber: Number(season),
-            episodeNumber: episode.episode_number,
-            episodeTitle: episode.name,
-            airDate: episode.air_date,
-            overview: episode.overview,
-            runtime: episode.runtime || 45,
-            stillPath: episode.still_path,
-            addedBy: req.user!.sub,
-            watchStatus: "unwatched"
-        }));
-
-        // Bulk upsert episodes
-        for (const episode of episodesToSave) {
-            await Episode.updateOne(
-                {
-                    tmdbId: episode.tmdbId,
-                    seasonNumber: episode.seasonNumber,
-                    episodeNumber: episode.episodeNumber,
-                    addedBy: episode.addedBy
-                },
-                episode,
-                { upsert: true }
-            );
-        }
+        // New episodes change the show's totals
+        await updateTrackedShowStats(req.user.sub, Number(tmdbId));
 
         res.status(200).json({
             message: `Season ${season} episodes fetched and saved successfully`,
             data: {
                 season: Number(season),
-                episodeCount: episodesToSave.length
+                episodeCount
             }
         });
     } catch (err: any) {
         console.error("Fetch episodes error:", err);
+        if (err instanceof UpstreamUnavailable) {
+            sendUpstreamUnavailable(res, err);
+            return;
+        }
         res.status(500).json({ message: err?.message });
     }
 };
 
-// In the addTVShowToWatchlist function - Replace the entire function with this:
 export const addTVShowToWatchlist = async (req: AuthRequest, res: Response): Promise<void> => {
     try {
         if (!req.user) {
@@ -691,11 +772,8 @@ export const addTVShowToWatchlist = async (req: AuthRequest, res: Response): Pro
             tvDetails = await TMDBService.getTVDetails(tmdbId);
             seasonCount = tvDetails.number_of_seasons || 1;
             episodeCount = tvDetails.number_of_episodes || 1;
-
-            // Fetch episodes from all seasons
-            await fetchAllEpisodesForTVShow(req.user.sub, tmdbId, seasonCount, tvDetails.name || title);
-
         } catch (error) {
+            if (error instanceof UpstreamUnavailable) throw error;
             console.error("Failed to fetch TV details:", error);
             // Don't fail the request if TMDB fails - just use defaults
         }
@@ -703,7 +781,7 @@ export const addTVShowToWatchlist = async (req: AuthRequest, res: Response): Pro
         // Create TV show entry in Media collection
         const newTVShow = new Media({
             tmdbId,
-            title,
+            title: tvDetails.name || title,
             type: "tv",
             posterPath: posterPath || tvDetails.poster_path || "",
             backdrop_path: backdrop_path || tvDetails.backdrop_path || "",
@@ -717,68 +795,35 @@ export const addTVShowToWatchlist = async (req: AuthRequest, res: Response): Pro
             seasonCount: seasonCount,
             episodeCount: episodeCount,
             totalEpisodesWatched: 0,
-            totalWatchTime: 0
+            totalWatchTime: 0,
+            ...(tvDetails.id ? extractMetadata("tv", tvDetails) : {})
         });
 
         await newTVShow.save();
+        // Skipped when the title is the client's, since TMDB didn't answer
+        if (tvDetails.name) {
+            await recordActivity(req.user.sub, "added", activityMedia(newTVShow));
+        }
 
-        res.status(201).json({
-            message: "TV show added to watchlist successfully",
-            data: newTVShow
+        // Seasons are fetched in the background; long-running shows used to time out here
+        const job = await enqueueTVIngest(req.user.sub, tmdbId);
+
+        res.status(202).json({
+            message: "TV show added to watchlist successfully. Episodes are being fetched.",
+            data: newTVShow,
+            job: {
+                id: job._id,
+                status: job.status,
+                statusUrl: `/api/v1/jobs/${job._id}`
+            }
         });
     } catch (err: any) {
         console.error("Add TV show error:", err);
-        res.status(500).json({ message: err?.message });
-    }
-};
-
-// Helper function to fetch all episodes for a TV show
-const fetchAllEpisodesForTVShow = async (userId: string, tmdbId: number, seasonCount: number, tvShowTitle: string) => {
-    try {
-        console.log(`📥 Fetching episodes for ${tvShowTitle} (${seasonCount} seasons)...`);
-
-        for (let season = 1; season <= seasonCount; season++) {
-            try {
-                const tmdbResponse = await TMDBService.getTVSeasonDetails(tmdbId, season);
-
-                // Store episodes in database
-                const episodesToSave = tmdbResponse.episodes.map((episode: any) => ({
-                    tmdbId: tmdbId,
-                    seasonNumber: season,
-                    episodeNumber: episode.episode_number,
-                    episodeTitle: episode.name,
-                    airDate: episode.air_date,
-                    overview: episode.overview,
-                    runtime: episode.runtime || 45,
-                    stillPath: episode.still_path,
-                    addedBy: userId,
-                    watchStatus: "unwatched"
-                }));
-
-                // Bulk upsert episodes
-                for (const episode of episodesToSave) {
-                    await Episode.updateOne(
-                        {
-                            tmdbId: episode.tmdbId,
-                            seasonNumber: episode.seasonNumber,
-                            episodeNumber: episode.episodeNumber,
-                            addedBy: episode.addedBy
-                        },
-                        episode,
-                        { upsert: true }
-                    );
-                }
-
-                console.log(`✅ Season ${season}: ${episodesToSave.length} episodes saved`);
-            } catch (seasonError) {
-                console.error(`❌ Failed to fetch season ${season}:`, seasonError);
-                // Continue with other seasons even if one fails
-            }
+        if (err instanceof UpstreamUnavailable) {
+            sendUpstreamUnavailable(res, err);
+            return;
         }
-
-        console.log(`🎉 Finished fetching all episodes for ${tvShowTitle}`);
-    } catch (error) {
-        console.error("Error fetching all episodes:", error);
+        res.status(500).json({ message: err?.message });
     }
 };
 
@@ -803,30 +848,28 @@ export const updateEpisodeStatus = async (req: AuthRequest, res: Response): Prom
             return;
         }
 
-        const episode = await Episode.findById(episodeId);
-        if (!episode || episode.addedBy.toString() !== req.user.sub) {
+        // episodeId is the shared catalog id; the show has to be in the user's watchlist
+        const episode = await findTrackedEpisode(req.user.sub, episodeId);
+        if (!episode) {
             res.status(404).json({ message: "Episode not found" });
             return;
         }
 
         // Update episode status
         if (watchStatus) {
-            episode.watchStatus = watchStatus;
-            if (watchStatus === "watched") {
-                episode.watchedAt = new Date();
-            } else {
-                episode.watchedAt = undefined;
-            }
+            await setEpisodeStatus(req.user.sub, episode, watchStatus);
         }
 
-        await episode.save();
-
         // Update TV show stats based on episode status
         await updateTVShowStats(req.user.sub, episode.tmdbId);
 
+        if (watchStatus && watchStatus !== "unwatched") {
+            await recordSeasonCompletion(req.user.sub, episode.tmdbId, episode.seasonNumber);
+        }
+
         res.status(200).json({
             message: "Episode status updated successfully",
-            data: episode
+            data: await findTrackedEpisode(req.user.sub, episodeId)
         });
     } catch (err: any) {
         console.error("Update episode error:", err);
@@ -834,50 +877,20 @@ export const updateEpisodeStatus = async (req: AuthRequest, res: Response): Prom
     }
 };
 
-const updateTVShowStats = async (userId: string, tmdbId: number) => {
+// A season counts as completed once nothing in it is left unwatched and at least one episode was watched
+const recordSeasonCompletion = async (userId: string, tmdbId: number, seasonNumber: number) => {
     try {
-        // Get all episodes for this TV show
-        const episodes = await Episode.find({
-            addedBy: userId,
-            tmdbId
-        });
-
-        if (episodes.length === 0) return;
-
-        // Calculate stats
-        const totalEpisodes = episodes.length;
-        const watchedEpisodes = episodes.filter(e => e.watchStatus === "watched");
-        const skippedEpisodes = episodes.filter(e => e.watchStatus === "skipped");
-        const totalWatchedEpisodes = watchedEpisodes.length + skippedEpisodes.length;
-
-        // Calculate total watch time (only from watched episodes)
-        const totalWatchTime = watchedEpisodes.reduce((sum, ep) => sum + (ep.runtime || 45), 0);
-
-        // Update TV show in Media collection
-        const tvShow = await Media.findOne({
-            addedBy: userId,
-            tmdbId,
-            type: "tv"
-        });
+        const season = await findTrackedEpisodes(userId, { tmdbId, seasonNumber });
+        const unwatched = season.some((episode) => episode.watchStatus === "unwatched");
+        const watched = season.some((episode) => episode.watchStatus === "watched");
+        if (unwatched || !watched) return;
 
+        const tvShow = await Media.findOne({ addedBy: userId, tmdbId, type: "tv" });
         if (tvShow) {
-            tvShow.totalEpisodesWatched = totalWatchedEpisodes;
-            tvShow.totalWatchTime = totalWatchTime;
-
-            // Update watch status based on watched episodes
-            if (totalWatchedEpisodes === 0) {
-                tvShow.watchStatus = "planned";
-            } else if (totalWatchedEpisodes === totalEpisodes) {
-                tvShow.watchStatus = "completed";
-            } else {
-                tvShow.watchStatus = "watching";
-            }
-
-            await tvShow.save();
-            console.log(`✅ Updated TV show ${tvShow.title}: ${totalWatchedEpisodes}/${totalEpisodes} episodes watched, ${totalWatchTime} minutes, status: ${tvShow.watchStatus}`);
+            await recordActivity(userId, "season_completed", activityMedia(tvShow), { seasonNumber });
         }
     } catch (error) {
-        console.error("Update TV show stats error:", error);
+        console.error("Season completion check error:", error);
     }
 };
 
@@ -891,7 +904,7 @@ export const getEpisodeStatistics = async (req: AuthRequest, res: Response): Pro
         const userId = req.user.sub;
 
         // Get all episodes for the user
-        const episodes = await Episode.find({ addedBy: userId });
+        const episodes = await findTrackedEpisodes(userId);
 
         // Get all TV shows
         const tvShows = await Media.find({
@@ -911,10 +924,7 @@ export const getEpisodeStatistics = async (req: AuthRequest, res: Response): Pro
         // Calculate by TV show
         const tvShowStats = await Promise.all(
             tvShows.map(async (tvShow) => {
-                const showEpisodes = await Episode.find({
-                    addedBy: userId,
-                    tmdbId: tvShow.tmdbId
-                });
+                const showEpisodes = episodes.filter(e => e.tmdbId === tvShow.tmdbId);
 
                 const showWatchedEpisodes = showEpisodes.filter(e => e.watchStatus === "watched").length;
                 const showSkippedEpisodes = showEpisodes.filter(e => e.watchStatus === "skipped").length;
@@ -954,13 +964,9 @@ export const getEpisodeStatistics = async (req: AuthRequest, res: Response): Pro
                         : 0
                 },
                 byTVShow: tvShowStats,
-                recentWatched: await Episode.find({
-                    addedBy: userId,
-                    watchStatus: "watched"
-                })
-                    .sort({ watchedAt: -1 })
-                    .limit(5)
-                    .lean()
+                recentWatched: watchedEpisodes
+                    .sort((a, b) => (b.watchedAt?.getTime() || 0) - (a.watchedAt?.getTime() || 0))
+                    .slice(0, 5)
             }
         });
     } catch (err: any) {
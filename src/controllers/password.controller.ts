@@ -3,6 +3,8 @@ import { User } from "../models/User";
 import crypto from "crypto";
 import bcrypt from "bcryptjs";
 import { sendPasswordResetEmail } from "../utils/mailer";
+import { revokeAllSessions } from "../utils/sessions";
+import { checkAuthThrottle, recordAuthFailure, sendTooManyAttempts } from "../utils/throttle";
 import dotenv from "dotenv";
 dotenv.config();
 
@@ -15,8 +17,18 @@ export const requestPasswordReset = async (req: Request, res: Response): Promise
             return;
         }
 
+        const lockedUntil = await checkAuthThrottle("reset", email, req.ip);
+        if (lockedUntil) {
+            sendTooManyAttempts(res, lockedUntil);
+            return;
+        }
+
         const user = await User.findOne({ email });
 
+        // Every request counts towards the limit so the inbox can't be flooded;
+        // a lock triggered here applies from the next request on
+        await recordAuthFailure("reset", email, req.ip, user?.email);
+
         if (!user) {
             res.status(200).json({
                 message: "If an account exists with this email, you will receive a password reset link"
@@ -108,6 +120,7 @@ export const resetPassword = async (req: Request, res: Response): Promise<void>
         user.resetPasswordExpires = undefined;
 
         await user.save();
+        await revokeAllSessions(user._id, "password_change");
 
         res.status(200).json({
             message: "Password reset successful. You can now login with your new password."
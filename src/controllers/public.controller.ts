@@ -0,0 +1,123 @@
+import { Request, Response } from "express";
+import { User, Visibility } from "../models/User";
+import { Media } from "../models/Media";
+import { List } from "../models/List";
+import { applyVisibilityHeaders, displayName, effectiveListVisibility, visibilityOf } from "../utils/privacy";
+
+// Unauthenticated, read-only views. Anything not shared answers 404 rather than 403,
+// so private profiles and lists can't be told apart from ones that don't exist.
+
+const PUBLIC_MEDIA_FIELDS = "tmdbId type title posterPath releaseDate watchStatus rating genres";
+const PUBLIC_LIST_ITEM_FIELDS = ["tmdbId", "type", "title", "posterPath", "releaseDate", "note", "addedAt"];
+
+export const getPublicProfile = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const handle = String(req.params.handle || "").toLowerCase();
+        const user = await User.findOne({ handle }).select("handle firstname lastname privacy createdAt").lean();
+
+        const profileVisibility = visibilityOf(user?.privacy, "profile");
+        if (!user || profileVisibility === Visibility.PRIVATE) {
+            res.status(404).json({ message: "Profile not found" });
+            return;
+        }
+
+        applyVisibilityHeaders(res, profileVisibility);
+
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+        const skip = (page - 1) * limit;
+
+        // The watchlist is shown on the profile unless it is private; there is no separate link to it
+        const watchlistShared = visibilityOf(user.privacy, "watchlist") !== Visibility.PRIVATE;
+        let watchlist = null;
+
+        if (watchlistShared) {
+            const filter = { addedBy: user._id };
+            const [items, total, completed] = await Promise.all([
+                Media.find(filter).select(PUBLIC_MEDIA_FIELDS).sort({ updatedAt: -1 }).skip(skip).limit(limit).lean(),
+                Media.countDocuments(filter),
+                Media.countDocuments({ ...filter, watchStatus: "completed" })
+            ]);
+
+            watchlist = {
+                items: items.map(({ _id, ...item }) => item),
+                stats: { total, completed },
+                pagination: {
+                    page,
+                    totalPages: Math.ceil(total / limit),
+                    total
+                }
+            };
+        }
+
+        // Only lists that are public end up here; link-only lists need their own URL
+        const lists = (await List.find({ owner: user._id })
+            .select("name slug description coverImage visibility items.posterPath updatedAt")
+            .sort({ updatedAt: -1 })
+            .lean())
+            .filter((list) => effectiveListVisibility(list, user.privacy) === Visibility.PUBLIC)
+            .map((list) => ({
+                name: list.name,
+                slug: list.slug,
+                description: list.description,
+                coverImage: list.coverImage,
+                itemCount: list.items.length,
+                previewPosters: list.items.slice(0, 4).map((item) => item.posterPath),
+                updatedAt: list.updatedAt
+            }));
+
+        res.status(200).json({
+            message: "Profile fetched successfully",
+            data: {
+                handle: user.handle,
+                name: displayName(user),
+                memberSince: user.createdAt,
+                watchlist,
+                lists
+            }
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const getPublicList = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const list = await List.findOne({ slug: req.params.slug }).lean();
+        const owner = list
+            ? await User.findById(list.owner).select("handle firstname lastname privacy").lean()
+            : null;
+
+        const visibility = list && owner ? effectiveListVisibility(list, owner.privacy) : Visibility.PRIVATE;
+        if (!list || !owner || visibility === Visibility.PRIVATE) {
+            res.status(404).json({ message: "List not found" });
+            return;
+        }
+
+        applyVisibilityHeaders(res, visibility);
+
+        // Link back to the owner only when their profile is shared too
+        const ownerProfileShared = visibilityOf(owner.privacy, "profile") !== Visibility.PRIVATE;
+
+        res.status(200).json({
+            message: "List fetched successfully",
+            data: {
+                name: list.name,
+                slug: list.slug,
+                description: list.description,
+                coverImage: list.coverImage,
+                owner: {
+                    name: displayName(owner),
+                    handle: ownerProfileShared ? owner.handle : undefined
+                },
+                itemCount: list.items.length,
+                items: list.items.map((item: any) =>
+                    Object.fromEntries(PUBLIC_LIST_ITEM_FIELDS.map((field) => [field, item[field]]))
+                ),
+                updatedAt: list.updatedAt
+            }
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
@@ -3,7 +3,7 @@ import { Response } from "express";
 import { AuthRequest } from "../middleware/auth";
 import PDFDocument from "pdfkit";
 import { Media } from "../models/Media";
-import { Episode } from "../models/Episode";
+import { findTrackedEpisodes } from "../services/episode.service";
 import { User } from "../models/User";
 
 export const generateMediaReport = async (req: AuthRequest, res: Response): Promise<void> => {
@@ -50,10 +50,8 @@ export const generateMediaReport = async (req: AuthRequest, res: Response): Prom
         }).sort({ createdAt: -1 });
 
         // Fetch episode data with TV show information
-        const episodes = await Episode.find({ 
-            addedBy: userId,
-            ...dateFilter 
-        });
+        const episodes = (await findTrackedEpisodes(userId))
+            .filter(episode => !dateFilter.createdAt || (episode.createdAt && episode.createdAt >= dateFilter.createdAt.$gte));
 
         // Group episodes by TV show
         const episodesByShow = new Map<number, any[]>();
@@ -0,0 +1,631 @@
+import { Response } from "express";
+import mongoose, { SortOrder } from "mongoose";
+import { AuthRequest } from "../middleware/auth";
+import { IReview, MAX_REVIEW_LENGTH, Review } from "../models/Review";
+import { IReviewComment, MAX_COMMENT_LENGTH, ReviewComment } from "../models/ReviewComment";
+import { Media } from "../models/Media";
+import { User, Visibility } from "../models/User";
+import TMDBService from "../services/tmdb.service";
+import { blockedUserIds, recordActivity } from "../services/social.service";
+import { sendUpstreamUnavailable, UpstreamUnavailable } from "../utils/resilience";
+import { displayName, isValidVisibility, visibilityOf } from "../utils/privacy";
+
+// Reviews, likes and comment threads. Like lists and profiles, a review the
+// caller may not see answers 404, and users on either side of a block don't
+// see each other's reviews or comments.
+
+type AuthorSummary = { handle?: string; name: string } | null;
+
+const isMediaType = (type: unknown): type is "movie" | "tv" => type === "movie" || type === "tv";
+
+// The handle only links to a profile that is actually shared
+const loadAuthors = async (ids: mongoose.Types.ObjectId[]): Promise<Map<string, AuthorSummary>> => {
+    const users = ids.length === 0 ? [] : await User.find({ _id: { $in: ids } })
+        .select("handle firstname lastname privacy")
+        .lean();
+
+    return new Map(users.map((user) => [user._id.toString(), {
+        handle: visibilityOf(user.privacy, "profile") !== Visibility.PRIVATE ? user.handle : undefined,
+        name: displayName(user)
+    }]));
+};
+
+const serializeReview = (
+    review: IReview,
+    authors: Map<string, AuthorSummary>,
+    viewerId: string | undefined,
+    includeSpoilers: boolean
+) => {
+    const hideBody = review.containsSpoilers && !includeSpoilers && review.author.toString() !== viewerId;
+
+    return {
+        _id: review._id,
+        author: authors.get(review.author.toString()) || null,
+        tmdbId: review.tmdbId,
+        type: review.type,
+        title: review.title,
+        body: hideBody ? null : review.body,
+        spoilerHidden: hideBody,
+        rating: review.rating,
+        containsSpoilers: review.containsSpoilers,
+        watchedOn: review.watchedOn,
+        visibility: review.visibility,
+        shareToken: review.author.toString() === viewerId ? review.shareToken : undefined,
+        likeCount: review.likeCount,
+        likedByMe: viewerId ? review.likes.some((id) => id.toString() === viewerId) : false,
+        commentCount: review.commentCount,
+        createdAt: review.createdAt,
+        updatedAt: review.updatedAt
+    };
+};
+
+// Link-shared reviews are addressed as /reviews/:reviewId?token=<shareToken>
+const shareTokenOf = (req: AuthRequest): string | undefined =>
+    typeof req.query.token === "string" ? req.query.token : undefined;
+
+// Returns the review when `viewerId` (or an anonymous caller) may read it.
+// Everyone but the author needs the share token for a link-only review.
+const findReadableReview = async (
+    reviewId: string,
+    viewerId: string | undefined,
+    shareToken: string | undefined
+): Promise<IReview | null> => {
+    if (!mongoose.Types.ObjectId.isValid(reviewId)) return null;
+
+    const review = await Review.findById(reviewId);
+    if (!review) return null;
+
+    const authorId = review.author.toString();
+    if (authorId === viewerId) return review;
+    if (review.visibility === Visibility.PRIVATE) return null;
+    if (review.visibility === Visibility.LINK && (!review.shareToken || shareToken !== review.shareToken)) {
+        return null;
+    }
+    if (viewerId && (await blockedUserIds(viewerId)).has(authorId)) return null;
+
+    return review;
+};
+
+const validateReviewFields = (body: any, partial: boolean): string | null => {
+    const { body: text, rating, containsSpoilers, watchedOn, visibility } = body;
+
+    if (!partial || text !== undefined) {
+        if (typeof text !== "string" || !text.trim()) return "Review text is required";
+        if (text.length > MAX_REVIEW_LENGTH) return `Review text must be at most ${MAX_REVIEW_LENGTH} characters`;
+    }
+    if (rating !== undefined && rating !== null && (!Number.isInteger(rating) || rating < 1 || rating > 5)) {
+        return "Rating must be a whole number between 1 and 5";
+    }
+    if (containsSpoilers !== undefined && typeof containsSpoilers !== "boolean") {
+        return "containsSpoilers must be true or false";
+    }
+    if (watchedOn !== undefined && watchedOn !== null) {
+        const date = new Date(watchedOn);
+        if (isNaN(date.getTime())) return "watchedOn must be a date";
+        if (date.getTime() > Date.now()) return "watchedOn can't be in the future";
+    }
+    if (visibility !== undefined && !isValidVisibility(visibility)) {
+        return "Visibility must be private, link or public";
+    }
+
+    return null;
+};
+
+const shareActivity = async (review: IReview): Promise<void> => {
+    if (review.visibility !== Visibility.PUBLIC) return;
+
+    const media = await Media.findOne({ addedBy: review.author, tmdbId: review.tmdbId, type: review.type })
+        .select("posterPath");
+    await recordActivity(review.author.toString(), "reviewed", {
+        tmdbId: review.tmdbId,
+        type: review.type,
+        title: review.title,
+        posterPath: media?.posterPath
+    }, { rating: review.rating });
+};
+
+export const getMediaReviews = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        const { type } = req.params;
+        const tmdbId = Number(req.params.tmdbId);
+
+        if (!isMediaType(type) || !Number.isInteger(tmdbId)) {
+            res.status(400).json({ message: "Invalid media type or TMDB ID" });
+            return;
+        }
+
+        const viewerId: string | undefined = req.user?.sub;
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = Math.min(parseInt(req.query.limit as string) || 20, 50);
+        const skip = (page - 1) * limit;
+        const sort: Record<string, SortOrder> = req.query.sort === "popular"
+            ? { likeCount: -1, createdAt: -1 }
+            : { createdAt: -1 };
+        const includeSpoilers = req.query.includeSpoilers === "true";
+
+        const blocked = viewerId ? [...await blockedUserIds(viewerId)] : [];
+        const filter: any = {
+            tmdbId,
+            type,
+            visibility: Visibility.PUBLIC,
+            author: { $nin: blocked.map((id) => new mongoose.Types.ObjectId(id)) }
+        };
+
+        const [details, reviews, total, summary, myReview] = await Promise.all([
+            type === "movie" ? TMDBService.getMovieDetails(tmdbId) : TMDBService.getTVDetails(tmdbId),
+            Review.find(filter).sort(sort).skip(skip).limit(limit),
+            Review.countDocuments(filter),
+            Review.aggregate<{ _id: number | null; count: number; spoilers: number }>([
+                { $match: filter },
+                {
+                    $group: {
+                        _id: "$rating",
+                        count: { $sum: 1 },
+                        spoilers: { $sum: { $cond: ["$containsSpoilers", 1, 0] } }
+                    }
+                }
+            ]),
+            viewerId ? Review.findOne({ author: viewerId, tmdbId, type }) : null
+        ]);
+
+        const authors = await loadAuthors([
+            ...reviews.map((review) => review.author),
+            ...(myReview ? [myReview.author] : [])
+        ]);
+
+        // `summary` has one row per rating value, including reviews without one
+        const ratingCounts = [1, 2, 3, 4, 5].map((stars) => summary.find((row) => row._id === stars)?.count || 0);
+        const rated = ratingCounts.reduce((sum, count) => sum + count, 0);
+        const ratingTotal = ratingCounts.reduce((sum, count, index) => sum + count * (index + 1), 0);
+
+        res.status(200).json({
+            message: "Reviews fetched successfully",
+            data: {
+                details: {
+                    ...details,
+                    watchTimeMinutes: type === "movie" ? details.runtime || 120 : 45
+                },
+                summary: {
+                    count: summary.reduce((sum, row) => sum + row.count, 0),
+                    averageRating: rated ? Math.round((ratingTotal / rated) * 10) / 10 : null,
+                    ratingCounts,
+                    spoilerCount: summary.reduce((sum, row) => sum + row.spoilers, 0)
+                },
+                myReview: myReview ? serializeReview(myReview, authors, viewerId, true) : null,
+                reviews: reviews.map((review) => serializeReview(review, authors, viewerId, includeSpoilers))
+            },
+            pagination: {
+                page,
+                totalPages: Math.ceil(total / limit),
+                total
+            }
+        });
+    } catch (err: any) {
+        if (err instanceof UpstreamUnavailable) {
+            sendUpstreamUnavailable(res, err);
+            return;
+        }
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const createReview = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const { type } = req.params;
+        const tmdbId = Number(req.params.tmdbId);
+
+        if (!isMediaType(type) || !Number.isInteger(tmdbId)) {
+            res.status(400).json({ message: "Invalid media type or TMDB ID" });
+            return;
+        }
+
+        const error = validateReviewFields(req.body, false);
+        if (error) {
+            res.status(400).json({ message: error });
+            return;
+        }
+
+        const existing = await Review.findOne({ author: req.user.sub, tmdbId, type }).select("_id");
+        if (existing) {
+            res.status(409).json({ message: "You already reviewed this title", data: { _id: existing._id } });
+            return;
+        }
+
+        // The title comes from the user's library or TMDB, never from the client, since it
+        // ends up in followers' feeds. Rating defaults to the library's.
+        const media = await Media.findOne({ addedBy: req.user.sub, tmdbId, type }).select("title rating");
+        let title = media?.title;
+        if (!title) {
+            try {
+                const details = type === "movie"
+                    ? await TMDBService.getMovieDetails(tmdbId)
+                    : await TMDBService.getTVDetails(tmdbId);
+                title = details.title || details.name;
+            } catch (error) {
+                if (error instanceof UpstreamUnavailable) throw error;
+            }
+        }
+        if (!title) {
+            res.status(404).json({ message: "Title not found on TMDB" });
+            return;
+        }
+
+        const { body, rating, containsSpoilers, watchedOn, visibility } = req.body;
+
+        const review = await Review.create({
+            author: req.user.sub,
+            tmdbId,
+            type,
+            title,
+            body: body.trim(),
+            rating: rating ?? media?.rating ?? undefined,
+            containsSpoilers: containsSpoilers === true,
+            watchedOn: watchedOn ? new Date(watchedOn) : undefined,
+            visibility: visibility || Visibility.PUBLIC
+        });
+
+        await shareActivity(review);
+
+        const authors = await loadAuthors([review.author]);
+        res.status(201).json({
+            message: "Review created successfully",
+            data: serializeReview(review, authors, req.user.sub, true)
+        });
+    } catch (err: any) {
+        if (err instanceof UpstreamUnavailable) {
+            sendUpstreamUnavailable(res, err);
+            return;
+        }
+        // Lost a race with a second create of the same review
+        if (err?.code === 11000) {
+            res.status(409).json({ message: "You already reviewed this title" });
+            return;
+        }
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const getMyReviews = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = Math.min(parseInt(req.query.limit as string) || 20, 50);
+        const filter = { author: req.user.sub };
+
+        const [reviews, total, authors] = await Promise.all([
+            Review.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+            Review.countDocuments(filter),
+            loadAuthors([new mongoose.Types.ObjectId(req.user.sub)])
+        ]);
+
+        res.status(200).json({
+            message: "Reviews fetched successfully",
+            data: reviews.map((review) => serializeReview(review, authors, req.user.sub, true)),
+            pagination: {
+                page,
+                totalPages: Math.ceil(total / limit),
+                total
+            }
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const getReview = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        const viewerId: string | undefined = req.user?.sub;
+        const review = await findReadableReview(req.params.reviewId, viewerId, shareTokenOf(req));
+
+        if (!review) {
+            res.status(404).json({ message: "Review not found" });
+            return;
+        }
+
+        const authors = await loadAuthors([review.author]);
+        res.status(200).json({
+            message: "Review fetched successfully",
+            data: serializeReview(review, authors, viewerId, req.query.includeSpoilers === "true")
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const updateReview = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const error = validateReviewFields(req.body, true);
+        if (error) {
+            res.status(400).json({ message: error });
+            return;
+        }
+
+        const review = mongoose.Types.ObjectId.isValid(req.params.reviewId)
+            ? await Review.findOne({ _id: req.params.reviewId, author: req.user.sub })
+            : null;
+
+        if (!review) {
+            res.status(404).json({ message: "Review not found" });
+            return;
+        }
+
+        const { body, rating, containsSpoilers, watchedOn, visibility } = req.body;
+        const wasPublic = review.visibility === Visibility.PUBLIC;
+
+        if (body !== undefined) review.body = body.trim();
+        if (rating !== undefined) review.rating = rating ?? undefined;
+        if (containsSpoilers !== undefined) review.containsSpoilers = containsSpoilers;
+        if (watchedOn !== undefined) review.watchedOn = watchedOn ? new Date(watchedOn) : undefined;
+        if (visibility !== undefined) review.visibility = visibility;
+
+        await review.save();
+
+        // Publishing a review that was private until now is news for followers
+        if (!wasPublic) await shareActivity(review);
+
+        const authors = await loadAuthors([review.author]);
+        res.status(200).json({
+            message: "Review updated successfully",
+            data: serializeReview(review, authors, req.user.sub, true)
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const deleteReview = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const review = mongoose.Types.ObjectId.isValid(req.params.reviewId)
+            ? await Review.findOneAndDelete({ _id: req.params.reviewId, author: req.user.sub })
+            : null;
+
+        if (!review) {
+            res.status(404).json({ message: "Review not found" });
+            return;
+        }
+
+        await ReviewComment.deleteMany({ review: review._id });
+
+        res.status(200).json({ message: "Review deleted successfully" });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const likeReview = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const review = await findReadableReview(req.params.reviewId, req.user.sub, shareTokenOf(req));
+
+        if (!review) {
+            res.status(404).json({ message: "Review not found" });
+            return;
+        }
+
+        if (review.author.toString() === req.user.sub) {
+            res.status(400).json({ message: "You can't like your own review" });
+            return;
+        }
+
+        // The $ne guard keeps likeCount in step with `likes` when the same like arrives twice
+        const updated = await Review.findOneAndUpdate(
+            { _id: review._id, likes: { $ne: req.user.sub } },
+            { $addToSet: { likes: req.user.sub }, $inc: { likeCount: 1 } },
+            { new: true }
+        );
+
+        res.status(200).json({
+            message: "Review liked",
+            data: { likeCount: updated?.likeCount ?? review.likeCount, likedByMe: true }
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const unlikeReview = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        if (!mongoose.Types.ObjectId.isValid(req.params.reviewId)) {
+            res.status(404).json({ message: "Review not found" });
+            return;
+        }
+
+        const updated = await Review.findOneAndUpdate(
+            { _id: req.params.reviewId, likes: req.user.sub },
+            { $pull: { likes: req.user.sub }, $inc: { likeCount: -1 } },
+            { new: true }
+        );
+
+        if (!updated) {
+            res.status(404).json({ message: "You have not liked this review" });
+            return;
+        }
+
+        res.status(200).json({
+            message: "Like removed",
+            data: { likeCount: updated.likeCount, likedByMe: false }
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+// Nests comments under their parents. Replies whose parent is gone are shown at the top level.
+const buildThread = (
+    comments: IReviewComment[],
+    authors: Map<string, AuthorSummary>,
+    hidden: Set<string>
+) => {
+    const nodes = new Map(comments.map((comment) => {
+        const authorId = comment.author.toString();
+        const withheld = comment.deleted || hidden.has(authorId);
+        return [comment._id.toString(), {
+            _id: comment._id,
+            author: withheld ? null : authors.get(authorId) || null,
+            body: withheld ? null : comment.body,
+            deleted: comment.deleted,
+            createdAt: comment.createdAt,
+            replies: [] as any[]
+        }];
+    }));
+
+    const roots: any[] = [];
+    for (const comment of comments) {
+        const node = nodes.get(comment._id.toString());
+        const parent = comment.parent ? nodes.get(comment.parent.toString()) : undefined;
+        (parent ? parent.replies : roots).push(node);
+    }
+    return roots;
+};
+
+export const getReviewComments = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        const viewerId: string | undefined = req.user?.sub;
+        const review = await findReadableReview(req.params.reviewId, viewerId, shareTokenOf(req));
+
+        if (!review) {
+            res.status(404).json({ message: "Review not found" });
+            return;
+        }
+
+        const [comments, hidden] = await Promise.all([
+            ReviewComment.find({ review: review._id }).sort({ createdAt: 1 }),
+            viewerId ? blockedUserIds(viewerId) : Promise.resolve(new Set<string>())
+        ]);
+        const authors = await loadAuthors(comments.map((comment) => comment.author));
+
+        res.status(200).json({
+            message: "Comments fetched successfully",
+            data: buildThread(comments, authors, hidden)
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const addReviewComment = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const { body, parentId } = req.body;
+
+        if (typeof body !== "string" || !body.trim()) {
+            res.status(400).json({ message: "Comment text is required" });
+            return;
+        }
+        if (body.length > MAX_COMMENT_LENGTH) {
+            res.status(400).json({ message: `Comment must be at most ${MAX_COMMENT_LENGTH} characters` });
+            return;
+        }
+
+        const review = await findReadableReview(req.params.reviewId, req.user.sub, shareTokenOf(req));
+
+        if (!review) {
+            res.status(404).json({ message: "Review not found" });
+            return;
+        }
+
+        let parent: IReviewComment | null = null;
+        if (parentId) {
+            parent = mongoose.Types.ObjectId.isValid(parentId)
+                ? await ReviewComment.findOne({ _id: parentId, review: review._id, deleted: false })
+                : null;
+
+            if (!parent || (await blockedUserIds(req.user.sub)).has(parent.author.toString())) {
+                res.status(404).json({ message: "Parent comment not found" });
+                return;
+            }
+        }
+
+        const comment = await ReviewComment.create({
+            review: review._id,
+            author: req.user.sub,
+            parent: parent?._id || null,
+            body: body.trim()
+        });
+        await Review.updateOne({ _id: review._id }, { $inc: { commentCount: 1 } });
+
+        const authors = await loadAuthors([comment.author]);
+        res.status(201).json({
+            message: "Comment added",
+            data: buildThread([comment], authors, new Set())[0]
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+// Comment authors can delete their comments; review authors can delete any comment on their review
+export const deleteReviewComment = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const { reviewId, commentId } = req.params;
+
+        if (!mongoose.Types.ObjectId.isValid(reviewId) || !mongoose.Types.ObjectId.isValid(commentId)) {
+            res.status(404).json({ message: "Comment not found" });
+            return;
+        }
+
+        const [review, comment] = await Promise.all([
+            Review.findById(reviewId).select("author"),
+            ReviewComment.findOne({ _id: commentId, review: reviewId, deleted: false })
+        ]);
+
+        const allowed = comment && review
+            && (comment.author.toString() === req.user.sub || review.author.toString() === req.user.sub);
+
+        if (!comment || !allowed) {
+            res.status(404).json({ message: "Comment not found" });
+            return;
+        }
+
+        // Keep the slot in the thread when others have replied to it
+        if (await ReviewComment.exists({ parent: comment._id })) {
+            comment.deleted = true;
+            comment.body = "";
+            await comment.save();
+        } else {
+            await comment.deleteOne();
+        }
+        await Review.updateOne({ _id: reviewId }, { $inc: { commentCount: -1 } });
+
+        res.status(200).json({ message: "Comment deleted" });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
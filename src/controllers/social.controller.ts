@@ -0,0 +1,256 @@
+import { Response } from "express";
+import { Model } from "mongoose";
+import { AuthRequest } from "../middleware/auth";
+import { User, Visibility } from "../models/User";
+import { Follow } from "../models/Follow";
+import { Block } from "../models/Block";
+import { displayName, visibilityOf } from "../utils/privacy";
+import { FeedQueryError, getFeed, isBlockedBetween } from "../services/social.service";
+
+// Other users are addressed by handle. Anyone who can't be followed (no such
+// handle, private profile, or a block either way) gets the same 404.
+
+const findByHandle = (handle: string) =>
+    User.findOne({ handle: String(handle || "").toLowerCase() }).select("handle firstname lastname privacy");
+
+const paging = (req: AuthRequest) => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+    return { page, limit, skip: (page - 1) * limit };
+};
+
+// Shared by the followers, following and blocks lists
+const listUsers = async (
+    req: AuthRequest,
+    res: Response,
+    model: Model<any>,
+    ownField: string,
+    otherField: string,
+    message: string
+): Promise<void> => {
+    const { page, limit, skip } = paging(req);
+
+    // No block filter needed: blocking deletes follows both ways and prevents new ones
+    const filter = { [ownField]: req.user.sub };
+
+    const [rows, total] = await Promise.all([
+        model.find(filter)
+            .sort({ createdAt: -1 })
+            .skip(skip)
+            .limit(limit)
+            .populate(otherField, "handle firstname lastname")
+            .lean(),
+        model.countDocuments(filter)
+    ]);
+
+    res.status(200).json({
+        message,
+        data: rows
+            .filter((row: any) => row[otherField])
+            .map((row: any) => ({
+                handle: row[otherField].handle,
+                name: displayName(row[otherField]),
+                since: row.createdAt
+            })),
+        pagination: {
+            page,
+            totalPages: Math.ceil(total / limit),
+            total
+        }
+    });
+};
+
+export const followUser = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const me = await User.findById(req.user.sub).select("handle");
+        if (!me?.handle) {
+            res.status(400).json({ message: "Choose a handle before following people" });
+            return;
+        }
+
+        const target = await findByHandle(req.params.handle);
+
+        if (target && target._id.toString() === req.user.sub) {
+            res.status(400).json({ message: "You can't follow yourself" });
+            return;
+        }
+
+        if (!target
+            || visibilityOf(target.privacy, "profile") === Visibility.PRIVATE
+            || await isBlockedBetween(req.user.sub, target._id.toString())) {
+            res.status(404).json({ message: "User not found" });
+            return;
+        }
+
+        const result = await Follow.updateOne(
+            { follower: req.user.sub, following: target._id },
+            { $setOnInsert: { follower: req.user.sub, following: target._id } },
+            { upsert: true }
+        );
+
+        console.log(`👥 ${me.handle} follows ${target.handle}`);
+
+        res.status(result.upsertedCount ? 201 : 200).json({
+            message: result.upsertedCount ? "Now following" : "Already following",
+            data: { handle: target.handle, name: displayName(target) }
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const unfollowUser = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const target = await findByHandle(req.params.handle);
+        const result = target
+            ? await Follow.deleteOne({ follower: req.user.sub, following: target._id })
+            : null;
+
+        if (!result?.deletedCount) {
+            res.status(404).json({ message: "You are not following this user" });
+            return;
+        }
+
+        res.status(200).json({ message: "Unfollowed" });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const getFollowers = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        await listUsers(req, res, Follow, "following", "follower", "Followers fetched successfully");
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const getFollowing = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        await listUsers(req, res, Follow, "follower", "following", "Following fetched successfully");
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const blockUser = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        // Blocking works regardless of the other user's privacy settings
+        const target = await findByHandle(req.params.handle);
+
+        if (!target) {
+            res.status(404).json({ message: "User not found" });
+            return;
+        }
+
+        if (target._id.toString() === req.user.sub) {
+            res.status(400).json({ message: "You can't block yourself" });
+            return;
+        }
+
+        await Block.updateOne(
+            { blocker: req.user.sub, blocked: target._id },
+            { $setOnInsert: { blocker: req.user.sub, blocked: target._id } },
+            { upsert: true }
+        );
+
+        // Follows in both directions end with the block and don't come back when it is lifted
+        await Follow.deleteMany({
+            $or: [
+                { follower: req.user.sub, following: target._id },
+                { follower: target._id, following: req.user.sub }
+            ]
+        });
+
+        res.status(200).json({ message: "User blocked", data: { handle: target.handle } });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const unblockUser = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const target = await findByHandle(req.params.handle);
+        const result = target
+            ? await Block.deleteOne({ blocker: req.user.sub, blocked: target._id })
+            : null;
+
+        if (!result?.deletedCount) {
+            res.status(404).json({ message: "You have not blocked this user" });
+            return;
+        }
+
+        res.status(200).json({ message: "User unblocked" });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const getBlockedUsers = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        await listUsers(req, res, Block, "blocker", "blocked", "Blocked users fetched successfully");
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const getActivityFeed = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const { items, nextCursor } = await getFeed(req.user.sub, {
+            limit: parseInt(req.query.limit as string) || undefined,
+            cursor: req.query.cursor ? String(req.query.cursor) : undefined
+        });
+
+        res.status(200).json({
+            message: "Feed fetched successfully",
+            data: items,
+            pagination: { nextCursor }
+        });
+    } catch (err: any) {
+        if (err instanceof FeedQueryError) {
+            res.status(400).json({ message: err.message });
+            return;
+        }
+        res.status(500).json({ message: err?.message });
+    }
+};
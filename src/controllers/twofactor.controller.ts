@@ -0,0 +1,300 @@
+import { Request, Response } from "express";
+import bcrypt from "bcryptjs";
+import { IUser, User } from "../models/User";
+import { AuthRequest } from "../middleware/auth";
+import {
+    buildOtpauthURI,
+    generateRecoveryCodes,
+    generateTOTPSecret,
+    hashRecoveryCode,
+    verifyTOTP
+} from "../utils/totp";
+import { verifyTwoFactorChallenge } from "../utils/tokens";
+import { startSession } from "../utils/sessions";
+import {
+    checkAuthThrottle,
+    clearAuthFailures,
+    recordAuthFailure,
+    sendTooManyAttempts
+} from "../utils/throttle";
+
+// Checks a TOTP code or, failing that, a recovery code. Consumes what it matched.
+const consumeSecondFactor = async (user: IUser, code?: string, recoveryCode?: string): Promise<boolean> => {
+    if (code && user.twoFactorSecret) {
+        const step = verifyTOTP(user.twoFactorSecret, code);
+
+        if (step !== null && (user.twoFactorLastUsedStep === undefined || step > user.twoFactorLastUsedStep)) {
+            user.twoFactorLastUsedStep = step;
+            await user.save();
+            return true;
+        }
+    }
+
+    if (recoveryCode) {
+        const hash = hashRecoveryCode(recoveryCode);
+        const index = user.twoFactorRecoveryCodes.indexOf(hash);
+
+        if (index !== -1) {
+            user.twoFactorRecoveryCodes.splice(index, 1);
+            await user.save();
+            console.log(`🔑 Recovery code used by ${user.email}, ${user.twoFactorRecoveryCodes.length} left`);
+            return true;
+        }
+    }
+
+    return false;
+};
+
+export const setupTwoFactor = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const user = await User.findById(req.user.sub);
+        if (!user) {
+            res.status(404).json({ message: "User not found" });
+            return;
+        }
+
+        if (user.twoFactorEnabled) {
+            res.status(400).json({ message: "Two-factor authentication is already enabled" });
+            return;
+        }
+
+        const secret = generateTOTPSecret();
+        user.twoFactorPendingSecret = secret;
+        await user.save();
+
+        res.status(200).json({
+            message: "Scan the QR code with your authenticator app, then confirm with a code",
+            data: {
+                secret,
+                otpauthUri: buildOtpauthURI(secret, user.email)
+            }
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const enableTwoFactor = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const { code } = req.body;
+        if (!code) {
+            res.status(400).json({ message: "Code is required" });
+            return;
+        }
+
+        const user = await User.findById(req.user.sub);
+        if (!user) {
+            res.status(404).json({ message: "User not found" });
+            return;
+        }
+
+        if (user.twoFactorEnabled) {
+            res.status(400).json({ message: "Two-factor authentication is already enabled" });
+            return;
+        }
+
+        if (!user.twoFactorPendingSecret) {
+            res.status(400).json({ message: "Start two-factor setup first" });
+            return;
+        }
+
+        const step = verifyTOTP(user.twoFactorPendingSecret, code);
+        if (step === null) {
+            res.status(400).json({ message: "Invalid code" });
+            return;
+        }
+
+        const { codes, hashes } = generateRecoveryCodes();
+
+        user.twoFactorEnabled = true;
+        user.twoFactorSecret = user.twoFactorPendingSecret;
+        user.twoFactorPendingSecret = undefined;
+        user.twoFactorRecoveryCodes = hashes;
+        user.twoFactorLastUsedStep = step;
+        await user.save();
+
+        res.status(200).json({
+            message: "Two-factor authentication enabled. Store these recovery codes somewhere safe.",
+            data: { recoveryCodes: codes }
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+// Second login step: trades the challenge token from `login` for access/refresh tokens
+export const verifyTwoFactorLogin = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { challengeToken, code, recoveryCode } = req.body;
+
+        if (!challengeToken || (!code && !recoveryCode)) {
+            res.status(400).json({ message: "Challenge token and code are required" });
+            return;
+        }
+
+        let challenge;
+        try {
+            challenge = verifyTwoFactorChallenge(challengeToken);
+        } catch {
+            res.status(401).json({ message: "Invalid or expired challenge" });
+            return;
+        }
+
+        const user = await User.findById(challenge.sub);
+        if (!user || !user.twoFactorEnabled) {
+            res.status(401).json({ message: "Invalid or expired challenge" });
+            return;
+        }
+
+        const lockedUntil = await checkAuthThrottle("twofactor", user.email, req.ip);
+        if (lockedUntil) {
+            sendTooManyAttempts(res, lockedUntil);
+            return;
+        }
+
+        const valid = await consumeSecondFactor(user, code, recoveryCode);
+        if (!valid) {
+            const lockedNow = await recordAuthFailure("twofactor", user.email, req.ip, user.email);
+            if (lockedNow) {
+                sendTooManyAttempts(res, lockedNow);
+                return;
+            }
+            res.status(401).json({ message: "Invalid code" });
+            return;
+        }
+
+        await clearAuthFailures("twofactor", user.email);
+
+        const { accessToken, refreshToken, session } = await startSession(user, req);
+
+        res.status(200).json({
+            message: "Login successful",
+            data: {
+                email: user.email,
+                roles: user.roles,
+                accessToken,
+                refreshToken,
+                sessionId: session.familyId,
+                recoveryCodesRemaining: user.twoFactorRecoveryCodes.length
+            }
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const disableTwoFactor = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const { password, code, recoveryCode } = req.body;
+
+        if (!password || (!code && !recoveryCode)) {
+            res.status(400).json({ message: "Password and code are required" });
+            return;
+        }
+
+        const user = await User.findById(req.user.sub);
+        if (!user) {
+            res.status(404).json({ message: "User not found" });
+            return;
+        }
+
+        if (!user.twoFactorEnabled) {
+            res.status(400).json({ message: "Two-factor authentication is not enabled" });
+            return;
+        }
+
+        const lockedUntil = await checkAuthThrottle("twofactor", user.email, req.ip);
+        if (lockedUntil) {
+            sendTooManyAttempts(res, lockedUntil);
+            return;
+        }
+
+        const validPassword = await bcrypt.compare(password, user.password);
+        const validCode = validPassword && await consumeSecondFactor(user, code, recoveryCode);
+
+        if (!validPassword || !validCode) {
+            const lockedNow = await recordAuthFailure("twofactor", user.email, req.ip, user.email);
+            if (lockedNow) {
+                sendTooManyAttempts(res, lockedNow);
+                return;
+            }
+            res.status(401).json({ message: "Password or code is incorrect" });
+            return;
+        }
+
+        user.twoFactorEnabled = false;
+        user.twoFactorSecret = undefined;
+        user.twoFactorPendingSecret = undefined;
+        user.twoFactorRecoveryCodes = [];
+        user.twoFactorLastUsedStep = undefined;
+        await user.save();
+
+        res.status(200).json({ message: "Two-factor authentication disabled" });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
+
+export const regenerateRecoveryCodes = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const { code } = req.body;
+        if (!code || typeof code !== "string") {
+            res.status(400).json({ message: "Code is required" });
+            return;
+        }
+
+        const user = await User.findById(req.user.sub);
+        if (!user || !user.twoFactorEnabled) {
+            res.status(400).json({ message: "Two-factor authentication is not enabled" });
+            return;
+        }
+
+        const lockedUntil = await checkAuthThrottle("twofactor", user.email, req.ip);
+        if (lockedUntil) {
+            sendTooManyAttempts(res, lockedUntil);
+            return;
+        }
+
+        const valid = await consumeSecondFactor(user, code);
+        if (!valid) {
+            const lockedNow = await recordAuthFailure("twofactor", user.email, req.ip, user.email);
+            if (lockedNow) {
+                sendTooManyAttempts(res, lockedNow);
+                return;
+            }
+            res.status(401).json({ message: "Invalid code" });
+            return;
+        }
+
+        const { codes, hashes } = generateRecoveryCodes();
+        user.twoFactorRecoveryCodes = hashes;
+        await user.save();
+
+        res.status(200).json({
+            message: "Recovery codes regenerated. Previous codes no longer work.",
+            data: { recoveryCodes: codes }
+        });
+    } catch (err: any) {
+        res.status(500).json({ message: err?.message });
+    }
+};
@@ -3,6 +3,21 @@ import cors from "cors";
 import authRouter from "./routes/auth.routes";
 import mediaRouter from "./routes/media.routes";
 import passwordRouter from "./routes/password.routes";
+import adminRouter from "./routes/admin.routes";
+import aiRouter from "./routes/ai.routes";
+import listRouter from "./routes/list.routes";
+import publicRouter from "./routes/public.routes";
+import socialRouter from "./routes/social.routes";
+import reviewRouter from "./routes/review.routes";
+import jobRouter from "./routes/job.routes";
+import { registerJobHandler, startJobWorker } from "./services/job.service";
+import {
+    ingestTVShow,
+    startShowSyncScheduler,
+    syncTVShow,
+    TV_INGEST_JOB,
+    TV_SYNC_JOB
+} from "./services/ingestion.service";
 import dotenv from "dotenv";
 import mongoose from "mongoose";
 
@@ -13,6 +28,17 @@ const MONGO_URI = process.env.MONGO_URI as string;
 
 const app = express();
 
+// Only behind a reverse proxy may req.ip come from X-Forwarded-For; without one,
+// clients could pick their own IP and dodge the per-IP auth throttling.
+// TRUST_PROXY takes a hop count (e.g. 1) or Express's address/subnet list.
+const parseTrustProxy = (value?: string): number | string | boolean => {
+    if (!value || value === "false" || value === "0") return false;
+    if (/^\d+$/.test(value)) return parseInt(value);
+    return value === "true" ? true : value;
+};
+
+app.set("trust proxy", parseTrustProxy(process.env.TRUST_PROXY?.trim()));
+
 app.use(express.json());
 app.use(
     cors({
@@ -25,6 +51,13 @@ app.use(
 app.use("/api/v1/auth", authRouter);
 app.use("/api/v1/media", mediaRouter);
 app.use("/api/v1/password", passwordRouter);
+app.use("/api/v1/admin", adminRouter);
+app.use("/api/v1/ai", aiRouter);
+app.use("/api/v1/lists", listRouter);
+app.use("/api/v1/public", publicRouter);
+app.use("/api/v1/social", socialRouter);
+app.use("/api/v1/reviews", reviewRouter);
+app.use("/api/v1/jobs", jobRouter);
 
 app.get("/", (_req, res) => {
     res.send("CINETIME Backend is Running 🎬");
@@ -34,6 +67,11 @@ mongoose
     .connect(MONGO_URI)
     .then(() => {
         console.log("✅ MongoDB Connected");
+
+        registerJobHandler(TV_INGEST_JOB, ingestTVShow);
+        registerJobHandler(TV_SYNC_JOB, syncTVShow);
+        startJobWorker();
+        startShowSyncScheduler();
     })
     .catch((err) => {
         console.error(`❌ DB Connection Failed: ${err}`);
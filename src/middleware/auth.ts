@@ -1,6 +1,7 @@
 import { NextFunction, Request, Response } from "express";
 import jwt from "jsonwebtoken";
 import dotenv from "dotenv";
+import { isSessionActive } from "../utils/sessions";
 dotenv.config();
 
 const JWT_SECRET = process.env.JWT_SECRET as string;
@@ -9,26 +10,58 @@ export interface AuthRequest extends Request {
     user?: any;
 }
 
-export const authenticate = (
+// Verifies the access token and that the session it was issued for hasn't been signed out
+const verifyAccessToken = async (token: string): Promise<any> => {
+    const payload: any = jwt.verify(token, JWT_SECRET);
+
+    if (!payload?.sub || !payload?.sid || !(await isSessionActive(payload.sub, payload.sid))) {
+        throw new jwt.JsonWebTokenError("Session has been revoked");
+    }
+
+    return payload;
+};
+
+export const authenticate = async (
     req: AuthRequest,
     res: Response,
     next: NextFunction
-): void => {
-    try {
-        const authHeader = req.headers.authorization;
-        if (!authHeader) {
-            res.status(401).json({ message: "No token provided" });
-            return;
-        }
+): Promise<void> => {
+    const authHeader = req.headers.authorization;
+    if (!authHeader) {
+        res.status(401).json({ message: "No token provided" });
+        return;
+    }
 
-        // Bearer fjhkuvjdjbknlmd
-        const token = authHeader.split(" ")[1]; // ["Bearer", "fjhkuvjdjbknlmd"]
+    // Bearer fjhkuvjdjbknlmd
+    const token = authHeader.split(" ")[1]; // ["Bearer", "fjhkuvjdjbknlmd"]
 
-        const payload = jwt.verify(token, JWT_SECRET);
-        req.user = payload;
-        next();
+    try {
+        req.user = await verifyAccessToken(token);
     } catch (err) {
-        res.status(401).json({ message: "Invalid or expired token" });
+        if (err instanceof jwt.JsonWebTokenError) {
+            res.status(401).json({ message: "Invalid or expired token" });
+        } else {
+            res.status(500).json({ message: (err as Error)?.message });
+        }
         return;
     }
-};
\ No newline at end of file
+
+    next();
+};
+
+// For public routes that show more to signed-in users; a missing or bad token just means anonymous
+export const optionalAuthenticate = async (
+    req: AuthRequest,
+    _res: Response,
+    next: NextFunction
+): Promise<void> => {
+    const token = req.headers.authorization?.split(" ")[1];
+    if (token) {
+        try {
+            req.user = await verifyAccessToken(token);
+        } catch {
+            req.user = undefined;
+        }
+    }
+    next();
+};
@@ -0,0 +1,51 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type ActivityVerb = "added" | "finished" | "rated" | "season_completed" | "reviewed";
+
+export interface IActivityMedia {
+    tmdbId: number;
+    type: "movie" | "tv";
+    title: string;
+    posterPath?: string;
+}
+
+// Something a user did to their library. Written once by the actor and read by
+// followers at feed time, so privacy and blocks always apply as they are now.
+export interface IActivity extends Document {
+    _id: mongoose.Types.ObjectId;
+    actor: mongoose.Types.ObjectId;
+    verb: ActivityVerb;
+    media: IActivityMedia; // Copied so the feed doesn't depend on the title still being in the library
+    rating?: number; // "rated", "reviewed"
+    seasonNumber?: number; // "season_completed"
+
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+const activitySchema = new Schema<IActivity>(
+    {
+        actor: { type: Schema.Types.ObjectId, ref: "User", required: true },
+        verb: { type: String, enum: ["added", "finished", "rated", "season_completed", "reviewed"], required: true },
+        media: {
+            type: new Schema<IActivityMedia>(
+                {
+                    tmdbId: { type: Number, required: true },
+                    type: { type: String, enum: ["movie", "tv"], required: true },
+                    title: { type: String, required: true },
+                    posterPath: { type: String }
+                },
+                { _id: false }
+            ),
+            required: true
+        },
+        rating: { type: Number, min: 1, max: 5 },
+        seasonNumber: { type: Number }
+    },
+    { timestamps: true }
+);
+
+activitySchema.index({ actor: 1, createdAt: -1 });
+activitySchema.index({ actor: 1, verb: 1, "media.tmdbId": 1, "media.type": 1 });
+
+export const Activity = mongoose.model<IActivity>("Activity", activitySchema);
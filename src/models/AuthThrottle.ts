@@ -0,0 +1,29 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// Failed-attempt counter for one throttle key, e.g. "login:account:jane@example.com" or "otp:ip:10.0.0.1"
+export interface IAuthThrottle extends Document {
+    _id: mongoose.Types.ObjectId;
+    key: string;
+    failures: number;
+    windowStart: Date;
+    lockouts: number;
+    lockedUntil?: Date;
+    expiresAt: Date;
+}
+
+const authThrottleSchema = new Schema<IAuthThrottle>(
+    {
+        key: { type: String, required: true, unique: true },
+        failures: { type: Number, default: 0 },
+        windowStart: { type: Date, default: Date.now },
+        lockouts: { type: Number, default: 0 }, // Drives the exponential backoff
+        lockedUntil: { type: Date },
+        expiresAt: { type: Date, required: true }
+    },
+    { timestamps: true }
+);
+
+// Forget a key (and its backoff level) once it has been quiet long enough
+authThrottleSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const AuthThrottle = mongoose.model<IAuthThrottle>("AuthThrottle", authThrottleSchema);
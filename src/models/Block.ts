@@ -0,0 +1,24 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// A block hides both users from each other's social features; only the blocker can lift it
+export interface IBlock extends Document {
+    _id: mongoose.Types.ObjectId;
+    blocker: mongoose.Types.ObjectId;
+    blocked: mongoose.Types.ObjectId;
+
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+const blockSchema = new Schema<IBlock>(
+    {
+        blocker: { type: Schema.Types.ObjectId, ref: "User", required: true },
+        blocked: { type: Schema.Types.ObjectId, ref: "User", required: true }
+    },
+    { timestamps: true }
+);
+
+blockSchema.index({ blocker: 1, blocked: 1 }, { unique: true });
+blockSchema.index({ blocked: 1 });
+
+export const Block = mongoose.model<IBlock>("Block", blockSchema);
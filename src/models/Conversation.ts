@@ -0,0 +1,84 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IConversationRecommendation {
+    title: string;
+    type: "movie" | "tv";
+    reason: string;
+    year?: string;
+    keywords: string[];
+    basedOn?: Array<{ tmdbId: number; type: "movie" | "tv"; title: string }>;
+    tmdbId: number | null;
+    posterPath?: string;
+    backdropPath?: string;
+    releaseDate?: string;
+    overview?: string;
+    vote_average?: number;
+}
+
+export interface IConversationMessage {
+    role: "user" | "assistant";
+    content: string;
+    recommendations: IConversationRecommendation[]; // Only set on assistant turns
+    createdAt: Date;
+}
+
+// A multi-turn chat with the AI assistant
+export interface IConversation extends Document {
+    _id: mongoose.Types.ObjectId;
+    user: mongoose.Types.ObjectId;
+    title: string;
+    messages: IConversationMessage[];
+    lastMessageAt: Date;
+
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+const recommendationSchema = new Schema<IConversationRecommendation>(
+    {
+        title: { type: String, required: true },
+        type: { type: String, enum: ["movie", "tv"], required: true },
+        reason: { type: String, default: "" },
+        year: { type: String },
+        keywords: { type: [String], default: [] },
+        basedOn: [
+            {
+                _id: false,
+                tmdbId: { type: Number, required: true },
+                type: { type: String, enum: ["movie", "tv"], required: true },
+                title: { type: String, required: true }
+            }
+        ],
+        tmdbId: { type: Number, default: null },
+        posterPath: { type: String },
+        backdropPath: { type: String },
+        releaseDate: { type: String },
+        overview: { type: String },
+        vote_average: { type: Number }
+    },
+    { _id: false }
+);
+
+const messageSchema = new Schema<IConversationMessage>(
+    {
+        role: { type: String, enum: ["user", "assistant"], required: true },
+        content: { type: String, required: true },
+        recommendations: { type: [recommendationSchema], default: [] },
+        createdAt: { type: Date, default: Date.now }
+    },
+    { _id: false }
+);
+
+const conversationSchema = new Schema<IConversation>(
+    {
+        user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+        title: { type: String, required: true },
+        messages: { type: [messageSchema], default: [] },
+        lastMessageAt: { type: Date, default: Date.now }
+    },
+    { timestamps: true }
+);
+
+conversationSchema.index({ user: 1, lastMessageAt: -1 });
+
+export const Conversation = mongoose.model<IConversation>("Conversation", conversationSchema);
@@ -0,0 +1,38 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// TMDB metadata for one episode, shared by everyone tracking the show.
+// Per-user state lives in EpisodeProgress.
+export interface IEpisodeCatalog extends Document {
+    _id: mongoose.Types.ObjectId;
+    tmdbId: number; // The show's TMDB id
+    seasonNumber: number;
+    episodeNumber: number;
+    episodeTitle: string;
+    airDate?: string;
+    overview?: string;
+    runtime: number;
+    stillPath?: string;
+    syncedAt: Date; // Last time this row was written from TMDB
+
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+const episodeCatalogSchema = new Schema<IEpisodeCatalog>(
+    {
+        tmdbId: { type: Number, required: true },
+        seasonNumber: { type: Number, required: true, min: 0 }, // 0 holds specials
+        episodeNumber: { type: Number, required: true, min: 1 },
+        episodeTitle: { type: String, required: true },
+        airDate: { type: String },
+        overview: { type: String },
+        runtime: { type: Number, default: 45 }, // Default 45 minutes per episode
+        stillPath: { type: String },
+        syncedAt: { type: Date, default: Date.now }
+    },
+    { timestamps: true }
+);
+
+episodeCatalogSchema.index({ tmdbId: 1, seasonNumber: 1, episodeNumber: 1 }, { unique: true });
+
+export const EpisodeCatalog = mongoose.model<IEpisodeCatalog>("EpisodeCatalog", episodeCatalogSchema);
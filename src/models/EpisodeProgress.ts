@@ -0,0 +1,44 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// A user's state for one catalog episode. Episodes without a row are unwatched.
+export interface IEpisodeProgress extends Document {
+    _id: mongoose.Types.ObjectId;
+    addedBy: mongoose.Types.ObjectId;
+    tmdbId: number;
+    seasonNumber: number;
+    episodeNumber: number;
+    watchStatus: "unwatched" | "watched" | "skipped";
+    watchedAt?: Date;
+    rating?: number;
+
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+const episodeProgressSchema = new Schema<IEpisodeProgress>(
+    {
+        addedBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+        tmdbId: { type: Number, required: true },
+        seasonNumber: { type: Number, required: true },
+        episodeNumber: { type: Number, required: true },
+        watchStatus: {
+            type: String,
+            enum: ["unwatched", "watched", "skipped"],
+            default: "unwatched"
+        },
+        watchedAt: { type: Date },
+        rating: { type: Number, min: 1, max: 5 }
+    },
+    { timestamps: true }
+);
+
+episodeProgressSchema.index({
+    addedBy: 1,
+    tmdbId: 1,
+    seasonNumber: 1,
+    episodeNumber: 1
+}, { unique: true });
+
+episodeProgressSchema.index({ addedBy: 1, watchStatus: 1, watchedAt: -1 });
+
+export const EpisodeProgress = mongoose.model<IEpisodeProgress>("EpisodeProgress", episodeProgressSchema);
@@ -0,0 +1,24 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// One row per "follower follows following"; following is one-way and needs no approval
+export interface IFollow extends Document {
+    _id: mongoose.Types.ObjectId;
+    follower: mongoose.Types.ObjectId;
+    following: mongoose.Types.ObjectId;
+
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+const followSchema = new Schema<IFollow>(
+    {
+        follower: { type: Schema.Types.ObjectId, ref: "User", required: true },
+        following: { type: Schema.Types.ObjectId, ref: "User", required: true }
+    },
+    { timestamps: true }
+);
+
+followSchema.index({ follower: 1, following: 1 }, { unique: true });
+followSchema.index({ following: 1, createdAt: -1 });
+
+export const Follow = mongoose.model<IFollow>("Follow", followSchema);
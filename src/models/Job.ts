@@ -0,0 +1,60 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+// A unit of background work. Workers claim queued jobs whose runAt has passed;
+// a running job whose lock is older than the lock timeout is treated as
+// abandoned (crashed worker) and can be claimed again.
+export interface IJob extends Document {
+    _id: mongoose.Types.ObjectId;
+    type: string;
+    payload: Record<string, any>;
+    owner?: mongoose.Types.ObjectId; // User allowed to see the job's status
+    dedupeKey?: string; // At most one queued or running job per key; cleared when the job finishes
+    status: JobStatus;
+    attempts: number;
+    maxAttempts: number;
+    runAt: Date;
+    lockedAt?: Date;
+    lockedBy?: string;
+    progress?: { completed: number; total: number };
+    result?: Record<string, any>;
+    lastError?: string;
+    finishedAt?: Date;
+
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+const jobSchema = new Schema<IJob>(
+    {
+        type: { type: String, required: true },
+        payload: { type: Schema.Types.Mixed, default: {} },
+        owner: { type: Schema.Types.ObjectId, ref: "User" },
+        dedupeKey: { type: String },
+        status: {
+            type: String,
+            enum: ["queued", "running", "succeeded", "failed"],
+            default: "queued"
+        },
+        attempts: { type: Number, default: 0 },
+        maxAttempts: { type: Number, default: 5 },
+        runAt: { type: Date, default: Date.now },
+        lockedAt: { type: Date },
+        lockedBy: { type: String },
+        progress: {
+            type: new Schema({ completed: Number, total: Number }, { _id: false })
+        },
+        result: { type: Schema.Types.Mixed },
+        lastError: { type: String },
+        finishedAt: { type: Date }
+    },
+    { timestamps: true }
+);
+
+jobSchema.index({ status: 1, runAt: 1 });
+jobSchema.index({ dedupeKey: 1 }, { unique: true, sparse: true });
+// Finished jobs are only kept around for status checks
+jobSchema.index({ finishedAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export const Job = mongoose.model<IJob>("Job", jobSchema);
@@ -0,0 +1,79 @@
+import mongoose, { Document, Schema } from "mongoose";
+import crypto from "crypto";
+import { Visibility } from "./User";
+
+export interface IListItem {
+    _id: mongoose.Types.ObjectId;
+    tmdbId: number;
+    type: "movie" | "tv";
+    title: string;
+    posterPath?: string;
+    releaseDate?: string;
+    note?: string;
+    addedAt: Date;
+}
+
+// A named, manually ordered collection. Items are TMDB titles and don't have
+// to be in the owner's watchlist; array order is the list order.
+export interface IList extends Document {
+    _id: mongoose.Types.ObjectId;
+    owner: mongoose.Types.ObjectId;
+    name: string;
+    slug: string; // Used in share links; stays the same when the list is renamed
+    visibility?: Visibility | null; // Unset: follows the owner's privacy.lists setting
+    description?: string;
+    coverImage?: string; // TMDB image path or absolute URL
+    items: mongoose.Types.DocumentArray<IListItem>;
+
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export const MAX_LIST_ITEMS = 500;
+
+const listItemSchema = new Schema<IListItem>({
+    tmdbId: { type: Number, required: true },
+    type: { type: String, enum: ["movie", "tv"], required: true },
+    title: { type: String, required: true },
+    posterPath: { type: String },
+    releaseDate: { type: String },
+    note: { type: String, maxlength: 1000 },
+    addedAt: { type: Date, default: Date.now }
+});
+
+const listSchema = new Schema<IList>(
+    {
+        owner: { type: Schema.Types.ObjectId, ref: "User", required: true },
+        name: { type: String, required: true, trim: true, maxlength: 100 },
+        slug: { type: String, unique: true, sparse: true },
+        visibility: { type: String, enum: [...Object.values(Visibility), null], default: null },
+        description: { type: String, trim: true, maxlength: 2000 },
+        coverImage: { type: String },
+        items: { type: [listItemSchema], default: [] }
+    },
+    { timestamps: true }
+);
+
+listSchema.index({ owner: 1, updatedAt: -1 });
+
+// Readable prefix plus a random suffix, so link-only lists can't be guessed from their name
+const makeSlug = (name: string): string => {
+    const base = name
+        .toLowerCase()
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "") // Drop accents: "é" -> "e"
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "")
+        .slice(0, 50);
+    return `${base || "list"}-${crypto.randomBytes(4).toString("hex")}`;
+};
+
+// Lists created before sharing existed get their slug the next time they are saved
+listSchema.pre("validate", function (next) {
+    if (!this.slug) {
+        this.slug = makeSlug(this.name || "");
+    }
+    next();
+});
+
+export const List = mongoose.model<IList>("List", listSchema);
@@ -1,5 +1,11 @@
 import mongoose, { Document, Schema } from "mongoose";
 
+export interface IMediaPerson {
+    tmdbId: number;
+    name: string;
+    character?: string; // Cast only
+}
+
 export interface IMedia extends Document {
     _id: mongoose.Types.ObjectId;
     tmdbId: number;
@@ -21,10 +27,29 @@ export interface IMedia extends Document {
     totalEpisodesWatched?: number;
     totalWatchTime?: number;
 
+    // TMDB metadata, filled in when the title is added (or by the backfill job)
+    genres: string[];
+    runtime?: number; // Minutes; per episode for TV shows
+    originalLanguage?: string; // ISO 639-1
+    countries: string[]; // ISO 3166-1
+    cast: IMediaPerson[]; // Top billed only
+    directors: IMediaPerson[]; // Movies
+    creators: IMediaPerson[]; // TV shows
+    metadataUpdatedAt?: Date;
+
     createdAt?: Date;
     updatedAt?: Date;
 }
 
+const mediaPersonSchema = new Schema<IMediaPerson>(
+    {
+        tmdbId: { type: Number, required: true },
+        name: { type: String, required: true },
+        character: { type: String }
+    },
+    { _id: false }
+);
+
 const mediaSchema = new Schema<IMedia>(
     {
         tmdbId: { type: Number, required: true },
@@ -48,12 +73,26 @@ const mediaSchema = new Schema<IMedia>(
         seasonCount: { type: Number, default: 1 },
         episodeCount: { type: Number, default: 1 },
         totalEpisodesWatched: { type: Number, default: 0 },
-        totalWatchTime: { type: Number, default: 0 }
+        totalWatchTime: { type: Number, default: 0 },
+
+        genres: { type: [String], default: [] },
+        runtime: { type: Number },
+        originalLanguage: { type: String },
+        countries: { type: [String], default: [] },
+        cast: { type: [mediaPersonSchema], default: [] },
+        directors: { type: [mediaPersonSchema], default: [] },
+        creators: { type: [mediaPersonSchema], default: [] },
+        metadataUpdatedAt: { type: Date }
     },
     { timestamps: true }
 );
 
 mediaSchema.index({ addedBy: 1, type: 1, watchStatus: 1 });
 mediaSchema.index({ addedBy: 1, tmdbId: 1, type: 1 });
+mediaSchema.index({ addedBy: 1, genres: 1 });
+mediaSchema.index({ addedBy: 1, originalLanguage: 1 });
+mediaSchema.index({ addedBy: 1, createdAt: -1 });
+// Watchlist search; a collection can only have one text index
+mediaSchema.index({ title: "text", overview: "text" }, { weights: { title: 5, overview: 1 }, name: "media_text_search" });
 
 export const Media = mongoose.model<IMedia>("Media", mediaSchema);
\ No newline at end of file
@@ -0,0 +1,61 @@
+import crypto from "crypto";
+import mongoose, { Document, Schema } from "mongoose";
+import { Visibility } from "./User";
+
+// A written review of a TMDB title. Anyone can review a title, whether or not it
+// is in their watchlist; one review per user and title.
+export interface IReview extends Document {
+    _id: mongoose.Types.ObjectId;
+    author: mongoose.Types.ObjectId;
+    tmdbId: number;
+    type: "movie" | "tv";
+    title: string; // Title of the media, for "my reviews" views without a TMDB call
+    body: string; // Markdown; clients render it and must not trust embedded HTML
+    rating?: number;
+    containsSpoilers: boolean;
+    watchedOn?: Date;
+    visibility: Visibility; // private: a personal note; link: reachable by URL; public: shown on the title
+    shareToken: string; // Random secret a link-only review's URL must carry; only shown to the author
+    likes: mongoose.Types.ObjectId[];
+    likeCount: number; // Kept alongside `likes` so reviews can be sorted by it
+    commentCount: number;
+
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export const MAX_REVIEW_LENGTH = 20000;
+
+const reviewSchema = new Schema<IReview>(
+    {
+        author: { type: Schema.Types.ObjectId, ref: "User", required: true },
+        tmdbId: { type: Number, required: true },
+        type: { type: String, enum: ["movie", "tv"], required: true },
+        title: { type: String, required: true },
+        body: { type: String, required: true, trim: true, maxlength: MAX_REVIEW_LENGTH },
+        rating: { type: Number, min: 1, max: 5 },
+        containsSpoilers: { type: Boolean, default: false },
+        watchedOn: { type: Date },
+        visibility: { type: String, enum: Object.values(Visibility), default: Visibility.PUBLIC },
+        shareToken: { type: String },
+        likes: { type: [{ type: Schema.Types.ObjectId, ref: "User" }], default: [] },
+        likeCount: { type: Number, default: 0 },
+        commentCount: { type: Number, default: 0 }
+    },
+    { timestamps: true }
+);
+
+reviewSchema.index({ author: 1, tmdbId: 1, type: 1 }, { unique: true });
+reviewSchema.index({ tmdbId: 1, type: 1, visibility: 1, createdAt: -1 });
+reviewSchema.index({ tmdbId: 1, type: 1, visibility: 1, likeCount: -1 });
+
+// Review ids are ObjectIds, which can be guessed from a neighbouring one, so
+// link sharing needs its own secret
+reviewSchema.pre("validate", function (next) {
+    if (!this.shareToken) {
+        this.shareToken = crypto.randomBytes(16).toString("hex");
+    }
+    next();
+});
+
+export const Review = mongoose.model<IReview>("Review", reviewSchema);
@@ -0,0 +1,33 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// A comment on a review. Replies point at their parent comment; a deleted comment
+// with replies keeps its place in the thread with its text removed.
+export interface IReviewComment extends Document {
+    _id: mongoose.Types.ObjectId;
+    review: mongoose.Types.ObjectId;
+    author: mongoose.Types.ObjectId;
+    parent: mongoose.Types.ObjectId | null;
+    body: string;
+    deleted: boolean;
+
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+const reviewCommentSchema = new Schema<IReviewComment>(
+    {
+        review: { type: Schema.Types.ObjectId, ref: "Review", required: true },
+        author: { type: Schema.Types.ObjectId, ref: "User", required: true },
+        parent: { type: Schema.Types.ObjectId, ref: "ReviewComment", default: null },
+        body: { type: String, trim: true, maxlength: MAX_COMMENT_LENGTH, default: "" },
+        deleted: { type: Boolean, default: false }
+    },
+    { timestamps: true }
+);
+
+reviewCommentSchema.index({ review: 1, createdAt: 1 });
+reviewCommentSchema.index({ author: 1 });
+
+export const ReviewComment = mongoose.model<IReviewComment>("ReviewComment", reviewCommentSchema);
@@ -0,0 +1,51 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type SessionRevokeReason =
+    | "logout"
+    | "logout_all"
+    | "reuse_detected"
+    | "password_change"
+    | "user_revoked";
+
+// One document per refresh token family (i.e. per logged-in device)
+export interface ISession extends Document {
+    _id: mongoose.Types.ObjectId;
+    user: mongoose.Types.ObjectId;
+    familyId: string;
+    currentJti: string;
+    device: string;
+    ip?: string;
+    userAgent?: string;
+    lastUsedAt: Date;
+    expiresAt: Date;
+    revokedAt?: Date;
+    revokedReason?: SessionRevokeReason;
+
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+const sessionSchema = new Schema<ISession>(
+    {
+        user: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+        familyId: { type: String, required: true, unique: true },
+        currentJti: { type: String, required: true },
+        device: { type: String, default: "Unknown device" },
+        ip: { type: String },
+        userAgent: { type: String },
+        lastUsedAt: { type: Date, default: Date.now },
+        expiresAt: { type: Date, required: true },
+        revokedAt: { type: Date },
+        revokedReason: {
+            type: String,
+            enum: ["logout", "logout_all", "reuse_detected", "password_change", "user_revoked"]
+        }
+    },
+    { timestamps: true }
+);
+
+sessionSchema.index({ user: 1, revokedAt: 1 });
+// Let Mongo drop families once their last refresh token can no longer be used
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = mongoose.model<ISession>("Session", sessionSchema);
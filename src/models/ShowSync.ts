@@ -0,0 +1,31 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// When a tracked show was last re-read from TMDB, shared by everyone tracking it
+export interface IShowSync extends Document {
+    _id: mongoose.Types.ObjectId;
+    tmdbId: number;
+    tmdbStatus?: string; // "Returning Series", "Ended", ...
+    seasonCount: number;
+    episodeCount: number;
+    lastSyncedAt: Date;
+    nextSyncAt: Date;
+
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+const showSyncSchema = new Schema<IShowSync>(
+    {
+        tmdbId: { type: Number, required: true, unique: true },
+        tmdbStatus: { type: String },
+        seasonCount: { type: Number, default: 1 },
+        episodeCount: { type: Number, default: 1 },
+        lastSyncedAt: { type: Date, required: true },
+        nextSyncAt: { type: Date, required: true }
+    },
+    { timestamps: true }
+);
+
+showSyncSchema.index({ nextSyncAt: 1 });
+
+export const ShowSync = mongoose.model<IShowSync>("ShowSync", showSyncSchema);
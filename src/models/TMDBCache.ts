@@ -0,0 +1,23 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface ITMDBCache extends Document {
+    _id: mongoose.Types.ObjectId;
+    key: string;
+    value: any;
+    expiresAt: Date; // Fresh until
+    purgeAt: Date; // Kept for stale reads until
+}
+
+const tmdbCacheSchema = new Schema<ITMDBCache>(
+    {
+        key: { type: String, required: true, unique: true },
+        value: { type: Schema.Types.Mixed, required: true },
+        expiresAt: { type: Date, required: true },
+        purgeAt: { type: Date, required: true }
+    },
+    { timestamps: true, minimize: false }
+);
+
+tmdbCacheSchema.index({ purgeAt: 1 }, { expireAfterSeconds: 0 });
+
+export const TMDBCache = mongoose.model<ITMDBCache>("TMDBCache", tmdbCacheSchema);
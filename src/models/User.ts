@@ -12,25 +12,59 @@ export enum Status {
     REJECTED = "REJECTED"
 }
 
+// private: owner only; link: anyone with the URL; public: also listed on the profile
+export enum Visibility {
+    PRIVATE = "private",
+    LINK = "link",
+    PUBLIC = "public"
+}
+
+export interface IPrivacySettings {
+    profile: Visibility;
+    watchlist: Visibility;
+    lists: Visibility; // Default for lists without their own setting
+}
+
 export interface IUser extends Document {
     _id: mongoose.Types.ObjectId;
     firstname: string;
     lastname: string;
+    handle?: string; // Unique public username used in profile URLs
     email: string;
     password: string;
     roles: Role[];
     approved: Status;
     otp?: string;
     otpExpires?: Date;
+    otpLastSentAt?: Date;
+    pendingEmail?: string;
+    pendingEmailOtp?: string;
+    pendingEmailOtpExpires?: Date;
     isEmailVerified: boolean;
     resetPasswordToken?: string;
     resetPasswordExpires?: Date;
+    approvalDecidedBy?: mongoose.Types.ObjectId;
+    approvalDecidedAt?: Date;
+    approvalReason?: string;
+    twoFactorEnabled: boolean;
+    twoFactorSecret?: string;
+    twoFactorPendingSecret?: string;
+    twoFactorRecoveryCodes: string[];
+    twoFactorLastUsedStep?: number;
+    privacy: IPrivacySettings;
+    calendarTokenHash?: string; // sha256 of the secret in the episode calendar feed URL
+
+    createdAt?: Date;
+    updatedAt?: Date;
 }
 
+const visibilityField = { type: String, enum: Object.values(Visibility), default: Visibility.PRIVATE };
+
 const userSchema = new Schema<IUser>(
     {
         firstname: { type: String, required: true },
         lastname: { type: String, required: true },
+        handle: { type: String, unique: true, sparse: true, lowercase: true, trim: true },
         email: { type: String, unique: true, lowercase: true, required: true },
         password: { type: String, required: true },
         roles: { type: [String], enum: Object.values(Role), default: [Role.USER] },
@@ -41,11 +75,31 @@ const userSchema = new Schema<IUser>(
         },
         otp: { type: String },
         otpExpires: { type: Date },
+        otpLastSentAt: { type: Date },
+        pendingEmail: { type: String, lowercase: true },
+        pendingEmailOtp: { type: String },
+        pendingEmailOtpExpires: { type: Date },
         isEmailVerified: { type: Boolean, default: false },
         resetPasswordToken: { type: String },
-        resetPasswordExpires: { type: Date }
+        resetPasswordExpires: { type: Date },
+        approvalDecidedBy: { type: Schema.Types.ObjectId, ref: "User" },
+        approvalDecidedAt: { type: Date },
+        approvalReason: { type: String },
+        twoFactorEnabled: { type: Boolean, default: false },
+        twoFactorSecret: { type: String },
+        twoFactorPendingSecret: { type: String }, // Set during enrollment, until the first code confirms it
+        twoFactorRecoveryCodes: { type: [String], default: [] }, // sha256 hashes
+        twoFactorLastUsedStep: { type: Number }, // Rejects replay of an already used code
+        privacy: {
+            profile: visibilityField,
+            watchlist: visibilityField,
+            lists: visibilityField
+        },
+        calendarTokenHash: { type: String, unique: true, sparse: true }
     },
     { timestamps: true }
 );
 
+userSchema.index({ roles: 1, approved: 1 });
+
 export const User = mongoose.model<IUser>("User", userSchema);
\ No newline at end of file
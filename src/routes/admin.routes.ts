@@ -0,0 +1,37 @@
+import { Router } from "express";
+import {
+    listUsers,
+    getUser,
+    updateUserRoles,
+    deleteUser,
+    listPendingAuthors,
+    approveAuthor,
+    rejectAuthor,
+    getTMDBCacheStats,
+    clearTMDBCache
+} from "../controllers/admin.controller";
+import { authenticate } from "../middleware/auth";
+import { requireRole } from "../middleware/role";
+import { Role } from "../models/User";
+
+const router = Router();
+
+// All admin routes require an authenticated ADMIN
+router.use(authenticate, requireRole(Role.ADMIN));
+
+// User management
+router.get("/users", listUsers); // List/search users (?q=&role=&status=&page=&limit=)
+router.get("/users/:userId", getUser); // View a single user
+router.put("/users/:userId/roles", updateUserRoles); // Replace a user's roles
+router.delete("/users/:userId", deleteUser); // Delete a user and their library
+
+// Author approval queue
+router.get("/authors/pending", listPendingAuthors); // Authors awaiting a decision
+router.put("/authors/:userId/approve", approveAuthor); // Approve an author application
+router.put("/authors/:userId/reject", rejectAuthor); // Reject with an optional { reason }
+
+// TMDB cache
+router.get("/cache/tmdb", getTMDBCacheStats); // Hit/miss counters per endpoint
+router.delete("/cache/tmdb", clearTMDBCache); // Drop all cached TMDB responses
+
+export default router;
@@ -1,11 +1,26 @@
 import { Router } from "express";
-import { aiChat, aiSearchMedia } from "../controllers/ai.controller";
+import { aiChat, aiChatStream, aiSearchMedia } from "../controllers/ai.controller";
+import {
+    startConversation,
+    continueConversation,
+    listConversations,
+    getConversation,
+    deleteConversation
+} from "../controllers/conversation.controller";
 import { authenticate } from "../middleware/auth";
 
 const router = Router();
 
 // AI Chat Routes
 router.post("/chat", authenticate, aiChat); // Get AI recommendations
+router.get("/chat/stream", authenticate, aiChatStream); // Stream AI recommendations (Server-Sent Events)
 router.post("/search", authenticate, aiSearchMedia); // Search based on AI recommendations
 
-export default router;
\ No newline at end of file
+// Conversation Routes
+router.post("/conversations", authenticate, startConversation); // Start a conversation with a first message
+router.get("/conversations", authenticate, listConversations); // List conversations, newest first
+router.get("/conversations/:conversationId", authenticate, getConversation); // Get a conversation with its messages
+router.post("/conversations/:conversationId/messages", authenticate, continueConversation); // Send a follow-up message
+router.delete("/conversations/:conversationId", authenticate, deleteConversation); // Delete a conversation
+
+export default router;
@@ -7,19 +7,49 @@ import {
     verifyOTP,
     updateProfile,
     changePassword,
-    deleteAccount
+    deleteAccount,
+    logout,
+    logoutAll,
+    getSessions,
+    deleteSession,
+    resendOTP,
+    confirmEmailChange,
+    updateHandle,
+    updatePrivacy
 } from "../controllers/auth.controller";
+import {
+    setupTwoFactor,
+    enableTwoFactor,
+    verifyTwoFactorLogin,
+    disableTwoFactor,
+    regenerateRecoveryCodes
+} from "../controllers/twofactor.controller";
 import { authenticate } from "../middleware/auth";
 
 const router = Router();
 
 router.post("/register", register);
 router.post("/verify-otp", verifyOTP);
+router.post("/resend-otp", resendOTP);
 router.post("/login", login);
 router.post("/refresh", handleRefreshToken);
+router.post("/logout", logout);
+router.post("/logout-all", authenticate, logoutAll);
+router.get("/sessions", authenticate, getSessions);
+router.delete("/sessions/:sessionId", authenticate, deleteSession);
 router.get("/me", authenticate, getMyDetails);
 router.put("/me", authenticate, updateProfile);
+router.post("/me/email/verify", authenticate, confirmEmailChange);
+router.put("/me/handle", authenticate, updateHandle); // Claim or change the public handle
+router.put("/me/privacy", authenticate, updatePrivacy); // Profile, watchlist and default list visibility
 router.put("/me/change-password", authenticate, changePassword);
 router.delete("/me", authenticate, deleteAccount);
 
+// Two-factor authentication
+router.post("/2fa/setup", authenticate, setupTwoFactor); // Returns secret + otpauth URI
+router.post("/2fa/enable", authenticate, enableTwoFactor); // Confirm with first code, returns recovery codes
+router.post("/2fa/verify", verifyTwoFactorLogin); // Exchange login challenge for tokens
+router.post("/2fa/disable", authenticate, disableTwoFactor); // Requires password + code
+router.post("/2fa/recovery-codes", authenticate, regenerateRecoveryCodes);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,9 @@
+import { Router } from "express";
+import { getJobStatus } from "../controllers/job.controller";
+import { authenticate } from "../middleware/auth";
+
+const router = Router();
+
+router.get("/:jobId", authenticate, getJobStatus); // Status of a background job I started
+
+export default router;
@@ -0,0 +1,32 @@
+import { Router } from "express";
+import {
+    createList,
+    getMyLists,
+    getList,
+    updateList,
+    deleteList,
+    addListItem,
+    updateListItem,
+    removeListItem,
+    reorderListItems
+} from "../controllers/list.controller";
+import { authenticate } from "../middleware/auth";
+
+const router = Router();
+
+router.use(authenticate);
+
+// List Routes
+router.post("/", createList); // Create a list
+router.get("/", getMyLists); // Get my lists
+router.get("/:listId", getList); // Get a list with its items
+router.put("/:listId", updateList); // Update name, description or cover image
+router.delete("/:listId", deleteList); // Delete a list
+
+// List Item Routes
+router.post("/:listId/items", addListItem); // Add a title (optionally at a position)
+router.put("/:listId/order", reorderListItems); // Reorder items
+router.put("/:listId/items/:itemId", updateListItem); // Update an item's note
+router.delete("/:listId/items/:itemId", removeListItem); // Remove an item
+
+export default router;
@@ -9,21 +9,27 @@ import {
     getWatchlistStats,
     getTrending,
     getPopularMovies,
+    getRecommendations,
     getTVShowEpisodes,
     addTVShowToWatchlist,
     fetchTVShowEpisodes,
     updateEpisodeStatus,
     getEpisodeStatistics,
-    deleteTVShowEpisodes
+    deleteTVShowEpisodes,
+    getUpNextEpisodes,
+    getOnDeckItems
 } from "../controllers/media.controller";
-import { authenticate } from "../middleware/auth";
+import { authenticate, optionalAuthenticate } from "../middleware/auth";
 import { generateMediaReport } from "../controllers/report.controller";
+import { getMediaReviews, createReview } from "../controllers/review.controller";
+import { getCalendar, createCalendarFeed, deleteCalendarFeed } from "../controllers/calendar.controller";
 
 const router = Router();
 
 // ==================== PUBLIC ROUTES ====================
 router.get("/search", searchMedia);
 router.get("/details/:type/:tmdbId", getMediaDetails);
+router.get("/details/:type/:tmdbId/reviews", optionalAuthenticate, getMediaReviews); // Details with community reviews
 router.get("/trending", getTrending);
 router.get("/popular", getPopularMovies);
 
@@ -34,6 +40,9 @@ router.post("/watchlist", authenticate, addToWatchlist); // Add movie to watchli
 router.post("/watchlist/tv", authenticate, addTVShowToWatchlist); // Add TV show to watchlist
 router.get("/watchlist", authenticate, getWatchlist); // Get all watchlist items
 router.get("/watchlist/stats", authenticate, getWatchlistStats); // Get watchlist statistics
+router.get("/recommendations", authenticate, getRecommendations); // Recommendations based on the watchlist
+router.get("/up-next", authenticate, getUpNextEpisodes); // Next episode of each show being watched
+router.get("/on-deck", authenticate, getOnDeckItems); // Shows in progress and planned movies
 router.put("/watchlist/:mediaId/status", authenticate, updateWatchStatus); // Update movie/TV show status
 router.delete("/watchlist/:mediaId", authenticate, removeFromWatchlist); // Remove from watchlist
 router.get("/report", authenticate, generateMediaReport); //pdf
@@ -43,4 +52,12 @@ router.put("/episodes/:episodeId/status", authenticate, updateEpisodeStatus); //
 router.get("/episodes/stats", authenticate, getEpisodeStatistics); // Get episode statistics
 router.delete("/tv/:tmdbId/episodes", authenticate, deleteTVShowEpisodes);
 
+// Calendar Routes
+router.get("/calendar", authenticate, getCalendar); // Episodes airing between ?from and ?to
+router.post("/calendar/feed", authenticate, createCalendarFeed); // New secret .ics subscription URL
+router.delete("/calendar/feed", authenticate, deleteCalendarFeed); // Revoke the .ics URL
+
+// Review Routes
+router.post("/details/:type/:tmdbId/reviews", authenticate, createReview); // Review a title
+
 export default router;
\ No newline at end of file
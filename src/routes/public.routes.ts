@@ -0,0 +1,12 @@
+import { Router } from "express";
+import { getPublicProfile, getPublicList } from "../controllers/public.controller";
+import { getCalendarFeed } from "../controllers/calendar.controller";
+
+const router = Router();
+
+// ==================== PUBLIC ROUTES ====================
+router.get("/users/:handle", getPublicProfile); // Shared profile with watchlist and public lists
+router.get("/lists/:slug", getPublicList); // Shared list
+router.get("/calendar/:token.ics", getCalendarFeed); // Episode calendar feed, the token is the credential
+
+export default router;
@@ -0,0 +1,34 @@
+import { Router } from "express";
+import {
+    getMyReviews,
+    getReview,
+    updateReview,
+    deleteReview,
+    likeReview,
+    unlikeReview,
+    getReviewComments,
+    addReviewComment,
+    deleteReviewComment
+} from "../controllers/review.controller";
+import { authenticate, optionalAuthenticate } from "../middleware/auth";
+
+const router = Router();
+
+// Reviews are created under /media/details/:type/:tmdbId/reviews
+
+// Review Routes
+router.get("/mine", authenticate, getMyReviews); // My reviews, including private ones
+router.get("/:reviewId", optionalAuthenticate, getReview); // Get a review (public, or link-shared with ?token=)
+router.put("/:reviewId", authenticate, updateReview); // Edit my review
+router.delete("/:reviewId", authenticate, deleteReview); // Delete my review and its comments
+
+// Like Routes
+router.post("/:reviewId/like", authenticate, likeReview); // Like a review
+router.delete("/:reviewId/like", authenticate, unlikeReview); // Remove my like
+
+// Comment Routes
+router.get("/:reviewId/comments", optionalAuthenticate, getReviewComments); // Threaded comments
+router.post("/:reviewId/comments", authenticate, addReviewComment); // Comment or reply (parentId)
+router.delete("/:reviewId/comments/:commentId", authenticate, deleteReviewComment); // Delete a comment
+
+export default router;
@@ -0,0 +1,32 @@
+import { Router } from "express";
+import {
+    followUser,
+    unfollowUser,
+    getFollowers,
+    getFollowing,
+    blockUser,
+    unblockUser,
+    getBlockedUsers,
+    getActivityFeed
+} from "../controllers/social.controller";
+import { authenticate } from "../middleware/auth";
+
+const router = Router();
+
+router.use(authenticate);
+
+// Follow Routes
+router.post("/follow/:handle", followUser); // Follow a user
+router.delete("/follow/:handle", unfollowUser); // Unfollow a user
+router.get("/followers", getFollowers); // People following me
+router.get("/following", getFollowing); // People I follow
+
+// Block Routes
+router.post("/blocks/:handle", blockUser); // Block a user (also removes follows both ways)
+router.delete("/blocks/:handle", unblockUser); // Unblock a user
+router.get("/blocks", getBlockedUsers); // People I blocked
+
+// Feed Routes
+router.get("/feed", getActivityFeed); // Activity of people I follow (cursor paginated)
+
+export default router;
@@ -0,0 +1,24 @@
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import { backfillMediaMetadata } from "../services/metadata.service";
+
+dotenv.config();
+
+// Usage: npm run backfill:metadata [-- --limit 500]
+const main = async (): Promise<void> => {
+    const limitIndex = process.argv.indexOf("--limit");
+    const limit = limitIndex !== -1 ? parseInt(process.argv[limitIndex + 1]) || undefined : undefined;
+
+    await mongoose.connect(process.env.MONGO_URI as string);
+    console.log("✅ MongoDB Connected");
+
+    const result = await backfillMediaMetadata({ limit });
+    console.log(`🎬 Metadata backfill done: ${result.titles} titles, ${result.updated} rows updated, ${result.failed} failed`);
+};
+
+main()
+    .catch((err) => {
+        console.error(`❌ Metadata backfill failed: ${err?.message || err}`);
+        process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
@@ -0,0 +1,30 @@
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import { migrateLegacyEpisodes } from "../services/episode.service";
+
+dotenv.config();
+
+// Usage: npm run migrate:episodes [-- --drop-legacy]
+// Copies the old per-user `episodes` collection into EpisodeCatalog and EpisodeProgress.
+// --drop-legacy removes `episodes` afterwards; leave it off until the new data has been checked.
+const main = async (): Promise<void> => {
+    const dropLegacy = process.argv.includes("--drop-legacy");
+
+    await mongoose.connect(process.env.MONGO_URI as string);
+    console.log("✅ MongoDB Connected");
+
+    const result = await migrateLegacyEpisodes();
+    console.log(`📺 Episode migration done: ${result.episodes} legacy rows, ${result.catalogWrites} catalog writes, ${result.progressWrites} progress writes`);
+
+    if (dropLegacy && result.episodes > 0) {
+        await mongoose.connection.collection("episodes").drop();
+        console.log("🗑️ Dropped the legacy episodes collection");
+    }
+};
+
+main()
+    .catch((err) => {
+        console.error(`❌ Episode migration failed: ${err?.message || err}`);
+        process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
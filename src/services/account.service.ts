@@ -0,0 +1,37 @@
+import mongoose from 'mongoose';
+import { User } from '../models/User';
+import { Media } from '../models/Media';
+import { EpisodeProgress } from '../models/EpisodeProgress';
+import { Session } from '../models/Session';
+import { Conversation } from '../models/Conversation';
+import { List } from '../models/List';
+import { Job } from '../models/Job';
+import { removeSocialData } from './social.service';
+import { forgetCachedSessions } from '../utils/sessions';
+
+// The one place an account is deleted, used by both self-service and admin
+// deletion. Anything new that belongs to a user gets removed here.
+
+export interface DeletedUserData {
+    deletedMedia: number;
+    deletedEpisodes: number;
+}
+
+export const deleteUserData = async (userId: string | mongoose.Types.ObjectId): Promise<DeletedUserData> => {
+    const id = new mongoose.Types.ObjectId(userId.toString());
+
+    const mediaResult = await Media.deleteMany({ addedBy: id });
+    const episodeResult = await EpisodeProgress.deleteMany({ addedBy: id });
+    await Session.deleteMany({ user: id });
+    forgetCachedSessions(id);
+    await Conversation.deleteMany({ user: id });
+    await List.deleteMany({ owner: id });
+    await Job.deleteMany({ owner: id, status: { $in: ['queued', 'running'] } });
+    await removeSocialData(id);
+    await User.findByIdAndDelete(id);
+
+    return {
+        deletedMedia: mediaResult.deletedCount || 0,
+        deletedEpisodes: episodeResult.deletedCount || 0,
+    };
+};
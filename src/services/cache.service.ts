@@ -0,0 +1,100 @@
+import { TMDBCache } from '../models/TMDBCache';
+
+export interface CacheEntry<T = any> {
+    value: T;
+    expiresAt: number; // epoch ms
+}
+
+// Expired entries are kept this long so they can be served stale while TMDB is down
+export const STALE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Stores return expired entries too (until STALE_RETENTION_MS); callers check expiresAt
+export interface CacheStore {
+    readonly name: string;
+    get<T>(key: string): Promise<CacheEntry<T> | null>;
+    set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+    delete(key: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+// In-process LRU: Map keeps insertion order, so re-inserting on read moves a key to the back
+export class MemoryCacheStore implements CacheStore {
+    readonly name = 'memory';
+    private entries = new Map<string, CacheEntry>();
+
+    constructor(private maxEntries: number = 1000) {}
+
+    async get<T>(key: string): Promise<CacheEntry<T> | null> {
+        const entry = this.entries.get(key);
+        if (!entry) return null;
+
+        if (entry.expiresAt + STALE_RETENTION_MS <= Date.now()) {
+            this.entries.delete(key);
+            return null;
+        }
+
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return entry as CacheEntry<T>;
+    }
+
+    async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+
+        while (this.entries.size > this.maxEntries) {
+            const oldestKey = this.entries.keys().next().value as string;
+            this.entries.delete(oldestKey);
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+    }
+}
+
+// Shared across instances and restarts; Mongo's TTL index drops rows past their stale window
+export class MongoCacheStore implements CacheStore {
+    readonly name = 'mongo';
+
+    async get<T>(key: string): Promise<CacheEntry<T> | null> {
+        const doc = await TMDBCache.findOne({ key }).lean();
+        if (!doc) return null;
+
+        return { value: doc.value as T, expiresAt: doc.expiresAt.getTime() };
+    }
+
+    async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+        await TMDBCache.updateOne(
+            { key },
+            {
+                key,
+                value: entry.value,
+                expiresAt: new Date(entry.expiresAt),
+                purgeAt: new Date(entry.expiresAt + STALE_RETENTION_MS)
+            },
+            { upsert: true }
+        );
+    }
+
+    async delete(key: string): Promise<void> {
+        await TMDBCache.deleteOne({ key });
+    }
+
+    async clear(): Promise<void> {
+        await TMDBCache.deleteMany({});
+    }
+}
+
+// TMDB_CACHE_STORE=memory (default) | mongo
+export const createCacheStore = (kind: string = process.env.TMDB_CACHE_STORE || 'memory'): CacheStore => {
+    if (kind === 'mongo') {
+        return new MongoCacheStore();
+    }
+
+    return new MemoryCacheStore(Number(process.env.TMDB_CACHE_MAX_ENTRIES) || 1000);
+};
@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import { EpisodeCatalog } from '../models/EpisodeCatalog';
+import { Media } from '../models/Media';
+import { User } from '../models/User';
+import { episodeCode, todayAirDate } from './episode.service';
+import { buildICalendar, ICalEvent } from '../utils/ical';
+
+// Air dates of episodes of the shows in a user's library, as JSON for the app
+// and as an iCalendar feed that calendar apps subscribe to with a secret URL.
+
+export class CalendarQueryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CalendarQueryError';
+    }
+}
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+// Recent airings stay in the feed for a while; calendar apps drop events that leave it
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 180;
+
+export interface CalendarEntry {
+    id: string; // Catalog episode id
+    airDate: string; // YYYY-MM-DD
+    code: string;
+    seasonNumber: number;
+    episodeNumber: number;
+    episodeTitle: string;
+    overview?: string;
+    runtime: number;
+    stillPath?: string;
+    show: { mediaId: string; tmdbId: number; title: string; posterPath?: string };
+    updatedAt?: Date;
+}
+
+const addDays = (date: string, days: number): string =>
+    new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const parseDate = (value: unknown, name: string): string | undefined => {
+    if (value === undefined || value === '') return undefined;
+
+    const date = String(value);
+    // Round-tripping rejects dates like 2026-02-31
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date)) || addDays(date, 0) !== date) {
+        throw new CalendarQueryError(`${name} must be a date (YYYY-MM-DD)`);
+    }
+    return date;
+};
+
+// Both ends inclusive. Defaults to the next 30 days.
+export const parseCalendarRange = (query: { from?: unknown; to?: unknown }): { from: string; to: string } => {
+    const from = parseDate(query.from, 'from') || todayAirDate();
+    const to = parseDate(query.to, 'to') || addDays(from, DEFAULT_RANGE_DAYS - 1);
+
+    if (to < from) throw new CalendarQueryError('to must not be before from');
+    if (to > addDays(from, MAX_RANGE_DAYS - 1)) {
+        throw new CalendarQueryError(`The range can't be longer than ${MAX_RANGE_DAYS} days`);
+    }
+
+    return { from, to };
+};
+
+// Episodes of every show in the user's library airing between `from` and `to`
+export const findAirings = async (userId: string, from: string, to: string): Promise<CalendarEntry[]> => {
+    const shows = await Media.find({ addedBy: userId, type: 'tv' })
+        .select('tmdbId title posterPath')
+        .lean();
+
+    if (shows.length === 0) return [];
+
+    const showsById = new Map(shows.map((show) => [show.tmdbId, show]));
+
+    const episodes = await EpisodeCatalog.find({
+        tmdbId: { $in: [...showsById.keys()] },
+        airDate: { $gte: from, $lte: to },
+    })
+        .sort({ airDate: 1, tmdbId: 1, seasonNumber: 1, episodeNumber: 1 })
+        .lean();
+
+    return episodes.map((episode) => {
+        const show = showsById.get(episode.tmdbId)!;
+        return {
+            id: episode._id.toString(),
+            airDate: episode.airDate as string,
+            code: episodeCode(episode),
+            seasonNumber: episode.seasonNumber,
+            episodeNumber: episode.episodeNumber,
+            episodeTitle: episode.episodeTitle,
+            overview: episode.overview || undefined,
+            runtime: episode.runtime,
+            stillPath: episode.stillPath || undefined,
+            show: {
+                mediaId: show._id.toString(),
+                tmdbId: show.tmdbId,
+                title: show.title,
+                posterPath: show.posterPath || undefined,
+            },
+            updatedAt: episode.updatedAt,
+        };
+    });
+};
+
+const hashFeedToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+// Only the hash is stored, so the URL is shown once; creating a new one revokes the old one
+export const rotateCalendarToken = async (userId: string): Promise<string> => {
+    const token = crypto.randomBytes(32).toString('hex');
+    await User.updateOne({ _id: userId }, { $set: { calendarTokenHash: hashFeedToken(token) } });
+    return token;
+};
+
+export const revokeCalendarToken = async (userId: string): Promise<boolean> => {
+    const result = await User.updateOne(
+        { _id: userId, calendarTokenHash: { $exists: true } },
+        { $unset: { calendarTokenHash: 1 } }
+    );
+    return result.modifiedCount > 0;
+};
+
+// Null when the token doesn't belong to anyone (never issued or revoked)
+export const buildCalendarFeed = async (token: string): Promise<string | null> => {
+    if (!/^[0-9a-f]{64}$/.test(token)) return null;
+
+    const user = await User.findOne({ calendarTokenHash: hashFeedToken(token) }).select('firstname').lean();
+    if (!user) return null;
+
+    const today = todayAirDate();
+    const airings = await findAirings(user._id.toString(), addDays(today, -FEED_PAST_DAYS), addDays(today, FEED_FUTURE_DAYS));
+
+    const events: ICalEvent[] = airings.map((airing) => ({
+        // Stable per episode, so re-syncs and catalog rewrites update the event instead of adding one
+        uid: `tv-${airing.show.tmdbId}-s${airing.seasonNumber}e${airing.episodeNumber}@cinetime`,
+        date: airing.airDate,
+        summary: `${airing.show.title} ${airing.code} · ${airing.episodeTitle}`,
+        description: airing.overview,
+        lastModified: airing.updatedAt,
+    }));
+
+    return buildICalendar({ name: 'CINETIME episodes', events });
+};
@@ -0,0 +1,59 @@
+import { IConversationMessage } from '../models/Conversation';
+import { libraryKey } from './profile.service';
+
+// Prior turns of a conversation, rendered for the prompt and trimmed to a token budget
+
+export const CONVERSATION_TOKEN_BUDGET = parseInt(process.env.AI_CONTEXT_TOKEN_BUDGET || '1500', 10);
+
+// Rough but provider-agnostic: about four characters per token for English text
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const formatTurn = (message: IConversationMessage): string => {
+    if (message.role === 'user') {
+        return `User: ${message.content}`;
+    }
+
+    if (message.recommendations.length === 0) {
+        return `Assistant: ${message.content}`;
+    }
+
+    // Numbered so follow-ups like "the second one" can be resolved
+    const picks = message.recommendations.map((rec, index) => {
+        const year = rec.year ? `, ${rec.year}` : '';
+        return `  ${index + 1}. ${rec.title} (${rec.type}${year}) — ${rec.reason}`;
+    });
+
+    return ['Assistant suggested:', ...picks].join('\n');
+};
+
+// Newest turns win; whole turns are dropped once the budget is spent
+export const trimToBudget = (
+    messages: IConversationMessage[],
+    budget: number = CONVERSATION_TOKEN_BUDGET
+): IConversationMessage[] => {
+    const kept: IConversationMessage[] = [];
+    let used = 0;
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+        const cost = estimateTokens(formatTurn(messages[i]));
+        if (used + cost > budget) break;
+        kept.unshift(messages[i]);
+        used += cost;
+    }
+
+    return kept;
+};
+
+export const formatConversationForPrompt = (messages: IConversationMessage[]): string =>
+    messages.map(formatTurn).join('\n');
+
+// Everything already suggested in this conversation, so follow-ups bring new titles
+export const suggestedKeys = (messages: IConversationMessage[]): string[] =>
+    messages.flatMap((message) => message.recommendations
+        .filter((rec) => rec.tmdbId !== null)
+        .map((rec) => libraryKey(rec.type, rec.tmdbId as number)));
+
+export const conversationTitle = (message: string): string => {
+    const title = message.trim().replace(/\s+/g, ' ');
+    return title.length > 60 ? `${title.slice(0, 57)}...` : title;
+};
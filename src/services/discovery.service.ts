@@ -0,0 +1,209 @@
+import TMDBService from './tmdb.service';
+import { buildViewingProfile, HistoryItem, itemWeight, libraryKey } from './profile.service';
+import { UpstreamUnavailable } from '../utils/resilience';
+
+// Content-based recommendations without an LLM. Candidates come from TMDB's
+// recommendations/similar lists for the user's favourite titles plus what's trending,
+// and are scored against genre and keyword weights learned from ratings and watch status.
+
+const MAX_SEEDS = 8; // Best-liked titles whose related lists are pulled in
+const KEYWORD_CANDIDATES = 40; // Only the best candidates get their keywords fetched
+const SOURCE_BONUS = 1.5; // Being related to a liked title counts more than a genre match
+const MAX_KEYWORD_SCORE = 3;
+
+export interface ContentRecommendation {
+    tmdbId: number;
+    type: 'movie' | 'tv';
+    title: string;
+    overview: string;
+    posterPath?: string;
+    backdropPath?: string;
+    releaseDate?: string;
+    vote_average?: number;
+    score: number;
+    reason: string;
+    matchedGenres: string[];
+    matchedKeywords: string[];
+    basedOn: Array<{ tmdbId: number; type: 'movie' | 'tv'; title: string }>;
+}
+
+interface Candidate {
+    item: any;
+    type: 'movie' | 'tv';
+    sources: Map<string, HistoryItem>; // Owned titles whose related lists surfaced it
+    trending: boolean;
+    genres: string[];
+    keywords: string[];
+    score: number;
+    matchedGenres: string[];
+    matchedKeywords: string[];
+}
+
+// Scales weights so the strongest positive one is 1
+const normalize = (weights: Map<string, number>): Map<string, number> => {
+    const max = Math.max(1, ...Array.from(weights.values()));
+    return new Map(Array.from(weights.entries()).map(([key, weight]) => [key, weight / max]));
+};
+
+const addWeight = (weights: Map<string, number>, key: string, weight: number): void => {
+    weights.set(key, (weights.get(key) || 0) + weight);
+};
+
+const keywordsOf = async (type: 'movie' | 'tv', tmdbId: number): Promise<string[]> => {
+    try {
+        return (await TMDBService.getKeywords(type, tmdbId)).map((keyword) => keyword.name.toLowerCase());
+    } catch {
+        return [];
+    }
+};
+
+const explain = (candidate: Candidate, basedOn: HistoryItem[]): string => {
+    const parts: string[] = [];
+    if (basedOn.length > 0) {
+        parts.push(`Because you watched ${basedOn.map((item) => item.title).join(', ')}`);
+    }
+    if (candidate.matchedGenres.length > 0) {
+        parts.push(`matches your taste for ${candidate.matchedGenres.join(', ')}`);
+    }
+    if (parts.length === 0 && candidate.trending) {
+        parts.push('Trending this week');
+    }
+    return parts.length > 0 ? parts.join('; ') : 'Popular with viewers like you';
+};
+
+export const recommendFromLibrary = async (
+    userId: string,
+    options: { type?: 'movie' | 'tv'; limit?: number } = {}
+): Promise<ContentRecommendation[]> => {
+    const limit = options.limit || 20;
+    const profile = await buildViewingProfile(userId);
+
+    const weighted = profile.history
+        .map((item) => ({ item, weight: itemWeight(item) }))
+        .filter(({ weight }) => weight !== 0);
+    const seeds = weighted
+        .filter(({ weight }) => weight > 0)
+        .sort((a, b) => b.weight - a.weight)
+        .slice(0, MAX_SEEDS);
+    const seedWeight = new Map(seeds.map(({ item, weight }) => [libraryKey(item.type, item.tmdbId), weight]));
+    const maxSeedWeight = Math.max(1, ...Array.from(seedWeight.values()));
+
+    // Taste profile: liked titles push their genres/keywords up, disliked or dropped ones down
+    const itemKeywords = new Map<string, string[]>();
+    await Promise.all(weighted.map(async ({ item }) => {
+        itemKeywords.set(libraryKey(item.type, item.tmdbId), await keywordsOf(item.type, item.tmdbId));
+    }));
+
+    const genreTotals = new Map<string, number>();
+    const keywordTotals = new Map<string, number>();
+    for (const { item, weight } of weighted) {
+        item.genres.forEach((genre) => addWeight(genreTotals, genre, weight));
+        (itemKeywords.get(libraryKey(item.type, item.tmdbId)) || []).forEach((keyword) => addWeight(keywordTotals, keyword, weight));
+    }
+    const genreWeights = normalize(genreTotals);
+    const keywordWeights = normalize(keywordTotals);
+
+    const [movieGenres, tvGenres] = await Promise.all([TMDBService.getMovieGenres(), TMDBService.getTVGenres()]);
+    const genreNames = new Map<string, string>([
+        ...movieGenres.map((genre): [string, string] => [`movie:${genre.id}`, genre.name]),
+        ...tvGenres.map((genre): [string, string] => [`tv:${genre.id}`, genre.name]),
+    ]);
+
+    const candidates = new Map<string, Candidate>();
+    const addCandidate = (item: any, type: 'movie' | 'tv', source?: HistoryItem): void => {
+        const key = libraryKey(type, item.id);
+        if (profile.libraryKeys.has(key) || (options.type && options.type !== type)) return;
+
+        let candidate = candidates.get(key);
+        if (!candidate) {
+            candidate = {
+                item,
+                type,
+                sources: new Map(),
+                trending: false,
+                genres: (item.genre_ids || [])
+                    .map((id: number) => genreNames.get(`${type}:${id}`))
+                    .filter((name: string | undefined): name is string => !!name),
+                keywords: [],
+                score: 0,
+                matchedGenres: [],
+                matchedKeywords: [],
+            };
+            candidates.set(key, candidate);
+        }
+
+        if (source) candidate.sources.set(libraryKey(source.type, source.tmdbId), source);
+        else candidate.trending = true;
+    };
+
+    await Promise.all(seeds.map(async ({ item }) => {
+        for (const kind of ['recommendations', 'similar'] as const) {
+            try {
+                const related = await TMDBService.getRelated(item.type, item.tmdbId, kind);
+                related.results.forEach((result) => addCandidate(result, item.type, item));
+            } catch (error: any) {
+                // One unknown or removed title shouldn't sink the whole list
+                if (error instanceof UpstreamUnavailable) throw error;
+                console.error(`Skipping ${kind} for "${item.title}":`, error.message);
+            }
+        }
+    }));
+
+    const trending = await TMDBService.getTrending('week');
+    trending.results.forEach((result) => addCandidate(result, result.media_type, undefined));
+
+    const scoreGenres = (candidate: Candidate): number => {
+        candidate.matchedGenres = candidate.genres.filter((genre) => (genreWeights.get(genre) || 0) > 0);
+        const total = candidate.genres.reduce((sum, genre) => sum + (genreWeights.get(genre) || 0), 0);
+        // Dividing by sqrt keeps titles with many genres from winning on breadth alone
+        return candidate.genres.length > 0 ? total / Math.sqrt(candidate.genres.length) : 0;
+    };
+
+    const scoreSources = (candidate: Candidate): number =>
+        SOURCE_BONUS * Array.from(candidate.sources.keys())
+            .reduce((sum, key) => sum + (seedWeight.get(key) || 0) / maxSeedWeight, 0);
+
+    const ranked = Array.from(candidates.values());
+    for (const candidate of ranked) {
+        candidate.score = scoreGenres(candidate) + scoreSources(candidate) + (candidate.item.vote_average || 0) / 20;
+    }
+    ranked.sort((a, b) => b.score - a.score);
+
+    // Keywords are one request per title, so only refine the front of the list
+    const shortlist = ranked.slice(0, Math.max(KEYWORD_CANDIDATES, limit));
+    await Promise.all(shortlist.map(async (candidate) => {
+        candidate.keywords = await keywordsOf(candidate.type, candidate.item.id);
+        candidate.matchedKeywords = candidate.keywords.filter((keyword) => (keywordWeights.get(keyword) || 0) > 0);
+
+        const keywordScore = candidate.keywords.reduce((sum, keyword) => sum + (keywordWeights.get(keyword) || 0), 0);
+        candidate.score += Math.max(-MAX_KEYWORD_SCORE, Math.min(MAX_KEYWORD_SCORE, keywordScore));
+    }));
+    shortlist.sort((a, b) => b.score - a.score || a.item.id - b.item.id);
+
+    return shortlist.slice(0, limit).map((candidate) => {
+        // Owned titles that surfaced this one, then ones sharing its keywords
+        const viaKeywords = weighted
+            .filter(({ weight }) => weight > 0)
+            .map(({ item }) => item)
+            .filter((item) => !candidate.sources.has(libraryKey(item.type, item.tmdbId)))
+            .filter((item) => (itemKeywords.get(libraryKey(item.type, item.tmdbId)) || [])
+                .some((keyword) => candidate.matchedKeywords.includes(keyword)));
+        const basedOn = [...Array.from(candidate.sources.values()), ...viaKeywords].slice(0, 3);
+
+        return {
+            tmdbId: candidate.item.id,
+            type: candidate.type,
+            title: candidate.item.title || candidate.item.name,
+            overview: candidate.item.overview,
+            posterPath: candidate.item.poster_path,
+            backdropPath: candidate.item.backdrop_path,
+            releaseDate: candidate.item.release_date,
+            vote_average: candidate.item.vote_average,
+            score: Number(candidate.score.toFixed(3)),
+            reason: explain(candidate, basedOn),
+            matchedGenres: candidate.matchedGenres,
+            matchedKeywords: candidate.matchedKeywords.slice(0, 5),
+            basedOn: basedOn.map((item) => ({ tmdbId: item.tmdbId, type: item.type, title: item.title })),
+        };
+    });
+};
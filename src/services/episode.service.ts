@@ -0,0 +1,341 @@
+import mongoose from 'mongoose';
+import { EpisodeCatalog, IEpisodeCatalog } from '../models/EpisodeCatalog';
+import { EpisodeProgress } from '../models/EpisodeProgress';
+import { Media } from '../models/Media';
+
+// Episodes are stored once in EpisodeCatalog and joined with the user's
+// EpisodeProgress on read. TrackedEpisode keeps the shape the old per-user
+// Episode documents had, so API responses didn't change.
+
+export type EpisodeWatchStatus = 'unwatched' | 'watched' | 'skipped';
+
+export interface TrackedEpisode {
+    _id: mongoose.Types.ObjectId; // Catalog id; this is the episodeId clients send back
+    id: string;
+    tmdbId: number;
+    seasonNumber: number;
+    episodeNumber: number;
+    episodeTitle: string;
+    airDate?: string;
+    overview?: string;
+    runtime: number;
+    stillPath?: string;
+    addedBy: mongoose.Types.ObjectId;
+    watchStatus: EpisodeWatchStatus;
+    watchedAt?: Date;
+    rating?: number;
+    createdAt?: Date;
+    updatedAt?: Date;
+    // Virtuals the old Episode model serialized
+    episodeIdentifier: string;
+    formattedAirDate: string;
+    watchTimeHours: number;
+}
+
+// TMDB air dates are YYYY-MM-DD, so they compare as strings
+export const todayAirDate = (): string => new Date().toISOString().slice(0, 10);
+
+// Undated episodes haven't aired yet as far as we know
+export const hasAired = (episode: { airDate?: string }, today: string = todayAirDate()): boolean =>
+    !!episode.airDate && episode.airDate <= today;
+
+// Specials (season 0) and episodes that haven't aired only count towards a
+// show's progress once the user has touched them, so they never hold it back
+// from "completed"
+export const countsTowardProgress = (episode: TrackedEpisode, today: string = todayAirDate()): boolean =>
+    episode.watchStatus !== 'unwatched' || (episode.seasonNumber > 0 && hasAired(episode, today));
+
+const pad = (number: number): string => String(number).padStart(2, '0');
+
+// "S02E05"
+export const episodeCode = (episode: { seasonNumber: number; episodeNumber: number }): string =>
+    `S${pad(episode.seasonNumber)}E${pad(episode.episodeNumber)}`;
+
+// "Mar 5, 2024", or "Unknown" for undated episodes
+const formatAirDate = (airDate?: string): string => {
+    if (!airDate) return 'Unknown';
+    return new Date(airDate).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+    });
+};
+
+const episodeKey = (tmdbId: number, seasonNumber: number, episodeNumber: number): string =>
+    `${tmdbId}:${seasonNumber}:${episodeNumber}`;
+
+// Writes one season as returned by TMDB's season endpoint. Returns the number of episodes.
+export const saveSeasonToCatalog = async (tmdbId: number, seasonNumber: number, episodes: any[]): Promise<number> => {
+    const valid = episodes.filter((episode) => episode.episode_number >= 1);
+    if (valid.length === 0) return 0;
+
+    const syncedAt = new Date();
+    await EpisodeCatalog.bulkWrite(valid.map((episode) => ({
+        updateOne: {
+            filter: { tmdbId, seasonNumber, episodeNumber: episode.episode_number },
+            update: {
+                $set: {
+                    episodeTitle: episode.name || `Episode ${episode.episode_number}`,
+                    airDate: episode.air_date || undefined,
+                    overview: episode.overview,
+                    runtime: episode.runtime || 45,
+                    stillPath: episode.still_path || undefined,
+                    syncedAt,
+                },
+            },
+            upsert: true,
+        },
+    })));
+
+    return valid.length;
+};
+
+type CatalogRow = Pick<IEpisodeCatalog, '_id' | 'tmdbId' | 'seasonNumber' | 'episodeNumber' | 'episodeTitle'
+    | 'airDate' | 'overview' | 'runtime' | 'stillPath'>;
+
+// createdAt/updatedAt are the user's own dates, as on the old per-user documents:
+// the progress row's, or when the show was added for episodes never touched
+const joinProgress = (
+    userId: string,
+    catalog: CatalogRow[],
+    progress: Map<string, { watchStatus: EpisodeWatchStatus; watchedAt?: Date; rating?: number; createdAt?: Date; updatedAt?: Date }>,
+    showsAddedAt: Map<number, Date | undefined>
+): TrackedEpisode[] => {
+    const addedBy = new mongoose.Types.ObjectId(userId);
+
+    return catalog.map((entry) => {
+        const state = progress.get(episodeKey(entry.tmdbId, entry.seasonNumber, entry.episodeNumber));
+        return {
+            _id: entry._id,
+            id: entry._id.toString(),
+            tmdbId: entry.tmdbId,
+            seasonNumber: entry.seasonNumber,
+            episodeNumber: entry.episodeNumber,
+            episodeTitle: entry.episodeTitle,
+            airDate: entry.airDate,
+            overview: entry.overview,
+            runtime: entry.runtime,
+            stillPath: entry.stillPath,
+            addedBy,
+            watchStatus: state?.watchStatus || 'unwatched',
+            watchedAt: state?.watchedAt,
+            rating: state?.rating,
+            createdAt: state?.createdAt || showsAddedAt.get(entry.tmdbId),
+            updatedAt: state?.updatedAt || showsAddedAt.get(entry.tmdbId),
+            episodeIdentifier: episodeCode(entry),
+            formattedAirDate: formatAirDate(entry.airDate),
+            watchTimeHours: (entry.runtime || 45) / 60,
+        };
+    });
+};
+
+// Catalog episodes of the user's shows, with their progress. Without a tmdbId
+// or tmdbIds, covers every show in the user's library.
+export const findTrackedEpisodes = async (
+    userId: string,
+    options: { tmdbId?: number; tmdbIds?: number[]; seasonNumber?: number } = {}
+): Promise<TrackedEpisode[]> => {
+    const requested = options.tmdbIds || (options.tmdbId !== undefined ? [options.tmdbId] : undefined);
+
+    const shows = await Media.find({ addedBy: userId, type: 'tv', ...(requested ? { tmdbId: { $in: requested } } : {}) })
+        .select('tmdbId createdAt')
+        .lean();
+    const tmdbIds = requested || shows.map((show) => show.tmdbId);
+
+    if (tmdbIds.length === 0) return [];
+
+    const filter: any = { tmdbId: { $in: tmdbIds } };
+    if (options.seasonNumber !== undefined) filter.seasonNumber = options.seasonNumber;
+
+    const [catalog, progress] = await Promise.all([
+        EpisodeCatalog.find(filter).sort({ tmdbId: 1, seasonNumber: 1, episodeNumber: 1 }).lean(),
+        EpisodeProgress.find({ addedBy: userId, ...filter }).lean(),
+    ]);
+
+    return joinProgress(
+        userId,
+        catalog,
+        new Map(progress.map((row) => [episodeKey(row.tmdbId, row.seasonNumber, row.episodeNumber), row])),
+        new Map(shows.map((show) => [show.tmdbId, show.createdAt]))
+    );
+};
+
+export const findTrackedEpisode = async (userId: string, episodeId: string): Promise<TrackedEpisode | null> => {
+    if (!mongoose.Types.ObjectId.isValid(episodeId)) return null;
+
+    const entry = await EpisodeCatalog.findById(episodeId).lean();
+    if (!entry) return null;
+
+    const show = await Media.findOne({ addedBy: userId, tmdbId: entry.tmdbId, type: 'tv' }).select('createdAt').lean();
+    if (!show) return null;
+
+    const progress = await EpisodeProgress.findOne({
+        addedBy: userId,
+        tmdbId: entry.tmdbId,
+        seasonNumber: entry.seasonNumber,
+        episodeNumber: entry.episodeNumber,
+    }).lean();
+
+    return joinProgress(userId, [entry], new Map(progress
+        ? [[episodeKey(entry.tmdbId, entry.seasonNumber, entry.episodeNumber), progress]]
+        : []), new Map([[entry.tmdbId, show.createdAt]]))[0];
+};
+
+export const setEpisodeStatus = async (
+    userId: string,
+    episode: Pick<TrackedEpisode, 'tmdbId' | 'seasonNumber' | 'episodeNumber'>,
+    watchStatus: EpisodeWatchStatus
+): Promise<void> => {
+    await EpisodeProgress.updateOne(
+        {
+            addedBy: userId,
+            tmdbId: episode.tmdbId,
+            seasonNumber: episode.seasonNumber,
+            episodeNumber: episode.episodeNumber,
+        },
+        watchStatus === 'watched'
+            ? { $set: { watchStatus, watchedAt: new Date() } }
+            : { $set: { watchStatus }, $unset: { watchedAt: 1 } },
+        { upsert: true }
+    );
+};
+
+// Resets the user's progress for a show; the shared catalog is left alone
+export const deleteShowProgress = async (userId: string, tmdbId: number): Promise<number> => {
+    const result = await EpisodeProgress.deleteMany({ addedBy: userId, tmdbId });
+    return result.deletedCount || 0;
+};
+
+// Recomputes a show's watched counts, watch time and status from its episodes
+export const updateTVShowStats = async (userId: string, tmdbId: number): Promise<void> => {
+    try {
+        // Get all episodes for this TV show that count towards progress
+        const today = todayAirDate();
+        const episodes = (await findTrackedEpisodes(userId, { tmdbId }))
+            .filter(e => countsTowardProgress(e, today));
+
+        if (episodes.length === 0) return;
+
+        // Calculate stats
+        const totalEpisodes = episodes.length;
+        const watchedEpisodes = episodes.filter(e => e.watchStatus === 'watched');
+        const skippedEpisodes = episodes.filter(e => e.watchStatus === 'skipped');
+        const totalWatchedEpisodes = watchedEpisodes.length + skippedEpisodes.length;
+
+        // Calculate total watch time (only from watched episodes)
+        const totalWatchTime = watchedEpisodes.reduce((sum, ep) => sum + (ep.runtime || 45), 0);
+
+        // Update TV show in Media collection
+        const tvShow = await Media.findOne({
+            addedBy: userId,
+            tmdbId,
+            type: 'tv'
+        });
+
+        if (tvShow) {
+            tvShow.totalEpisodesWatched = totalWatchedEpisodes;
+            tvShow.totalWatchTime = totalWatchTime;
+
+            // Update watch status based on watched episodes. A completed show
+            // goes back to "watching" when a sync brings in newly aired episodes.
+            if (totalWatchedEpisodes === 0) {
+                tvShow.watchStatus = 'planned';
+            } else if (totalWatchedEpisodes === totalEpisodes) {
+                tvShow.watchStatus = 'completed';
+            } else {
+                tvShow.watchStatus = 'watching';
+            }
+
+            await tvShow.save();
+            console.log(`✅ Updated TV show ${tvShow.title}: ${totalWatchedEpisodes}/${totalEpisodes} episodes watched, ${totalWatchTime} minutes, status: ${tvShow.watchStatus}`);
+        }
+    } catch (error) {
+        console.error('Update TV show stats error:', error);
+    }
+};
+
+// For recomputes the user didn't ask for, like episodes arriving from TMDB:
+// users who never tracked an episode keep the status they set by hand
+export const updateTrackedShowStats = async (userId: string, tmdbId: number): Promise<void> => {
+    if (!(await EpisodeProgress.exists({ addedBy: userId, tmdbId }))) return;
+    await updateTVShowStats(userId, tmdbId);
+};
+
+export interface EpisodeMigrationResult {
+    episodes: number;
+    catalogWrites: number;
+    progressWrites: number;
+}
+
+// One-off move from the old per-user `episodes` collection. Safe to re-run:
+// everything is an upsert, and rows are read oldest first so the most recently
+// updated copy of an episode's metadata wins.
+export const migrateLegacyEpisodes = async (
+    options: { batchSize?: number } = {}
+): Promise<EpisodeMigrationResult> => {
+    const batchSize = options.batchSize || 500;
+    const legacy = mongoose.connection.collection('episodes');
+    const result: EpisodeMigrationResult = { episodes: 0, catalogWrites: 0, progressWrites: 0 };
+
+    let catalogOps: any[] = [];
+    let progressOps: any[] = [];
+
+    const flush = async (): Promise<void> => {
+        if (catalogOps.length > 0) {
+            await EpisodeCatalog.bulkWrite(catalogOps, { ordered: true });
+            result.catalogWrites += catalogOps.length;
+        }
+        if (progressOps.length > 0) {
+            await EpisodeProgress.bulkWrite(progressOps, { ordered: false });
+            result.progressWrites += progressOps.length;
+        }
+        catalogOps = [];
+        progressOps = [];
+    };
+
+    // The legacy collection has no updatedAt index and can be large, so the
+    // sort has to be allowed to spill to disk
+    for await (const doc of legacy.find({}).sort({ updatedAt: 1, _id: 1 }).allowDiskUse(true)) {
+        result.episodes += 1;
+        const position = { tmdbId: doc.tmdbId, seasonNumber: doc.seasonNumber, episodeNumber: doc.episodeNumber };
+
+        catalogOps.push({
+            updateOne: {
+                filter: position,
+                update: {
+                    $set: {
+                        episodeTitle: doc.episodeTitle,
+                        airDate: doc.airDate || undefined,
+                        overview: doc.overview,
+                        runtime: doc.runtime || 45,
+                        stillPath: doc.stillPath || undefined,
+                        syncedAt: doc.updatedAt || new Date(),
+                    },
+                },
+                upsert: true,
+            },
+        });
+
+        // Untouched episodes need no progress row
+        if ((doc.watchStatus && doc.watchStatus !== 'unwatched') || doc.rating) {
+            progressOps.push({
+                updateOne: {
+                    filter: { addedBy: doc.addedBy, ...position },
+                    update: {
+                        $set: {
+                            watchStatus: doc.watchStatus || 'unwatched',
+                            watchedAt: doc.watchedAt || undefined,
+                            rating: doc.rating || undefined,
+                        },
+                    },
+                    upsert: true,
+                },
+            });
+        }
+
+        if (catalogOps.length >= batchSize) await flush();
+    }
+
+    await flush();
+    return result;
+};
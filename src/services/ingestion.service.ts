@@ -0,0 +1,194 @@
+import { Media } from '../models/Media';
+import { EpisodeCatalog } from '../models/EpisodeCatalog';
+import { EpisodeProgress } from '../models/EpisodeProgress';
+import { ShowSync } from '../models/ShowSync';
+import TMDBService from './tmdb.service';
+import { enqueueJob, JobHandler } from './job.service';
+import { saveSeasonToCatalog, updateTrackedShowStats, updateTVShowStats } from './episode.service';
+import { UpstreamUnavailable } from '../utils/resilience';
+
+// Fetching a show's seasons from TMDB as background jobs: all of them after
+// the show is added to a watchlist, then periodic syncs that pick up new
+// seasons and episodes for shows people are still following.
+
+export const TV_INGEST_JOB = 'tv_ingest';
+export const TV_SYNC_JOB = 'tv_sync';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Shows TMDB lists as finished rarely change, but revivals and corrections happen
+const SYNC_INTERVAL_RUNNING = 1 * DAY;
+const SYNC_INTERVAL_ENDED = 7 * DAY;
+const ENDED_STATUSES = ['Ended', 'Canceled'];
+
+const SYNC_BATCH_SIZE = 200; // Shows enqueued per scheduler tick
+
+export const enqueueTVIngest = (userId: string, tmdbId: number) =>
+    enqueueJob(TV_INGEST_JOB, { userId, tmdbId }, {
+        owner: userId,
+        dedupeKey: `${TV_INGEST_JOB}:${userId}:${tmdbId}`,
+    });
+
+// A retry starts again from season 1; seasons fetched on the earlier attempt
+// come out of the TMDB cache and the catalog writes are upserts.
+export const ingestTVShow: JobHandler = async (payload, { reportProgress }) => {
+    const userId = String(payload.userId);
+    const tmdbId = Number(payload.tmdbId);
+
+    // Removed from the watchlist while the job was waiting
+    if (!(await Media.exists({ addedBy: userId, tmdbId, type: 'tv' }))) {
+        return { skipped: true };
+    }
+
+    const details = await TMDBService.getTVDetails(tmdbId);
+    const seasonCount = details.number_of_seasons || 1;
+
+    let episodes = 0;
+    const failedSeasons: number[] = [];
+
+    for (let season = 1; season <= seasonCount; season++) {
+        try {
+            const tmdbResponse = await TMDBService.getTVSeasonDetails(tmdbId, season);
+            episodes += await saveSeasonToCatalog(tmdbId, season, tmdbResponse.episodes);
+        } catch (error) {
+            // TMDB being down fails the attempt so the queue retries it later
+            if (error instanceof UpstreamUnavailable) throw error;
+            console.error(`❌ Failed to fetch season ${season} of ${tmdbId}:`, error);
+            failedSeasons.push(season);
+        }
+        await reportProgress(season, seasonCount);
+    }
+
+    // Only users already tracking episodes; a status set by hand while the job ran stays
+    await updateTrackedShowStats(userId, tmdbId);
+
+    console.log(`🎉 Ingested ${details.name || tmdbId}: ${episodes} episodes in ${seasonCount} seasons`);
+    return { seasons: seasonCount, episodes, failedSeasons };
+};
+
+// Re-reads a show's details and fetches its latest known season plus any new
+// ones. Earlier seasons are settled and stay as they are in the catalog.
+export const syncTVShow: JobHandler = async (payload, { reportProgress }) => {
+    const tmdbId = Number(payload.tmdbId);
+
+    // Everyone removed it while the job was waiting
+    if (!(await Media.exists({ tmdbId, type: 'tv' }))) {
+        await ShowSync.deleteOne({ tmdbId });
+        return { skipped: true };
+    }
+
+    await TMDBService.invalidate('tv', `${tmdbId}`);
+    const details = await TMDBService.getTVDetails(tmdbId);
+    const seasonCount = details.number_of_seasons || 1;
+    const episodeCount = details.number_of_episodes || 1;
+
+    const latest = await EpisodeCatalog.findOne({ tmdbId, seasonNumber: { $gt: 0 } })
+        .sort({ seasonNumber: -1 })
+        .select('seasonNumber')
+        .lean();
+    const firstSeason = latest ? Math.min(latest.seasonNumber, seasonCount) : 1;
+
+    // The season airing now gains episodes and air dates without its cache expiring
+    if (latest) await TMDBService.invalidate('season', `${tmdbId}:${latest.seasonNumber}`);
+
+    const before = await EpisodeCatalog.countDocuments({ tmdbId });
+    const failedSeasons: number[] = [];
+
+    for (let season = firstSeason; season <= seasonCount; season++) {
+        try {
+            const tmdbResponse = await TMDBService.getTVSeasonDetails(tmdbId, season);
+            await saveSeasonToCatalog(tmdbId, season, tmdbResponse.episodes);
+        } catch (error) {
+            if (error instanceof UpstreamUnavailable) throw error;
+            console.error(`❌ Failed to sync season ${season} of ${tmdbId}:`, error);
+            failedSeasons.push(season);
+        }
+        await reportProgress(season - firstSeason + 1, seasonCount - firstSeason + 1);
+    }
+
+    const newEpisodes = (await EpisodeCatalog.countDocuments({ tmdbId })) - before;
+
+    await Media.updateMany({ tmdbId, type: 'tv' }, { $set: { seasonCount, episodeCount } });
+
+    // Also runs when nothing new came in, since episodes already in the catalog
+    // may have aired since the last sync. Users who never tracked episodes keep
+    // the status they set by hand.
+    const userIds = await EpisodeProgress.distinct('addedBy', { tmdbId });
+    for (const userId of userIds) {
+        await updateTVShowStats(String(userId), tmdbId);
+    }
+
+    const now = Date.now();
+    const interval = ENDED_STATUSES.includes(details.status) ? SYNC_INTERVAL_ENDED : SYNC_INTERVAL_RUNNING;
+    await ShowSync.updateOne(
+        { tmdbId },
+        {
+            $set: {
+                tmdbStatus: details.status,
+                seasonCount,
+                episodeCount,
+                lastSyncedAt: new Date(now),
+                nextSyncAt: new Date(now + interval),
+            },
+        },
+        { upsert: true }
+    );
+
+    if (newEpisodes > 0) {
+        console.log(`🆕 Synced ${details.name || tmdbId}: ${newEpisodes} new episodes, ${seasonCount} seasons`);
+    }
+    return { seasons: seasonCount, newEpisodes, failedSeasons, users: userIds.length };
+};
+
+// Enqueues a sync for every show someone is watching or has completed that is
+// due for one. Returns how many were enqueued.
+export const scheduleShowSyncs = async (): Promise<number> => {
+    const tracked: number[] = await Media.distinct('tmdbId', {
+        type: 'tv',
+        watchStatus: { $in: ['watching', 'completed'] },
+    });
+    if (tracked.length === 0) return 0;
+
+    const notDue = new Set((await ShowSync.find({ tmdbId: { $in: tracked }, nextSyncAt: { $gt: new Date() } })
+        .select('tmdbId')
+        .lean()).map((sync) => sync.tmdbId));
+
+    const due = tracked.filter((tmdbId) => !notDue.has(tmdbId)).slice(0, SYNC_BATCH_SIZE);
+
+    // Deduped, so several API instances scheduling at once don't double up
+    for (const tmdbId of due) {
+        await enqueueJob(TV_SYNC_JOB, { tmdbId }, { dedupeKey: `${TV_SYNC_JOB}:${tmdbId}` });
+    }
+
+    return due.length;
+};
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+// TV_SYNC_INTERVAL_MINUTES (default 60) is how often due shows are looked for; 0 turns it off
+export const startShowSyncScheduler = (): void => {
+    if (schedulerTimer) return;
+
+    const minutes = parseInt(process.env.TV_SYNC_INTERVAL_MINUTES ?? '60');
+    if (!(minutes > 0)) return;
+
+    const tick = async (): Promise<void> => {
+        try {
+            const count = await scheduleShowSyncs();
+            if (count > 0) console.log(`🔄 Scheduled ${count} TV show syncs`);
+        } catch (error) {
+            console.error('Show sync scheduler error:', error);
+        }
+    };
+
+    schedulerTimer = setInterval(() => void tick(), minutes * 60 * 1000);
+    void tick();
+};
+
+export const stopShowSyncScheduler = (): void => {
+    if (schedulerTimer) {
+        clearInterval(schedulerTimer);
+        schedulerTimer = null;
+    }
+};
@@ -0,0 +1,195 @@
+import os from 'os';
+import mongoose from 'mongoose';
+import { IJob, Job } from '../models/Job';
+import { backoffDelay, UpstreamUnavailable } from '../utils/resilience';
+
+// A small Mongo-backed job queue. Any process that calls startJobWorker()
+// polls for due jobs, so several API instances share the work; a claim is a
+// single findOneAndUpdate, so a job is only ever run by one worker at a time.
+
+export interface JobContext {
+    job: IJob;
+    // Also refreshes the job's lock, so long jobs that report progress aren't taken over
+    reportProgress(completed: number, total: number): Promise<void>;
+}
+
+export type JobHandler = (payload: Record<string, any>, context: JobContext) => Promise<Record<string, any> | void>;
+
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+const POLL_INTERVAL_MS = 2000;
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000; // A running job not heard from for this long is considered abandoned
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+const handlers = new Map<string, JobHandler>();
+
+export const registerJobHandler = (type: string, handler: JobHandler): void => {
+    handlers.set(type, handler);
+};
+
+// With a dedupeKey, returns the queued or running job that already has it instead of adding another
+export const enqueueJob = async (
+    type: string,
+    payload: Record<string, any>,
+    options: { owner?: string; dedupeKey?: string; maxAttempts?: number } = {}
+): Promise<IJob> => {
+    const { owner, dedupeKey, maxAttempts } = options;
+
+    if (dedupeKey) {
+        const existing = await Job.findOne({ dedupeKey });
+        if (existing) return existing;
+    }
+
+    try {
+        const job = await Job.create({ type, payload, owner, dedupeKey, maxAttempts });
+        wakeJobWorker();
+        return job;
+    } catch (err: any) {
+        // Lost a race with an identical enqueue
+        if (err?.code === 11000 && dedupeKey) {
+            const existing = await Job.findOne({ dedupeKey });
+            if (existing) return existing;
+        }
+        throw err;
+    }
+};
+
+export const findJob = async (jobId: string): Promise<IJob | null> =>
+    mongoose.Types.ObjectId.isValid(jobId) ? Job.findById(jobId) : null;
+
+const claimNextJob = async (): Promise<IJob | null> => {
+    const now = new Date();
+
+    return Job.findOneAndUpdate(
+        {
+            type: { $in: [...handlers.keys()] },
+            $or: [
+                { status: 'queued', runAt: { $lte: now } },
+                { status: 'running', lockedAt: { $lt: new Date(now.getTime() - LOCK_TIMEOUT_MS) } },
+            ],
+        },
+        {
+            $set: { status: 'running', lockedAt: now, lockedBy: WORKER_ID },
+            $inc: { attempts: 1 },
+        },
+        { sort: { runAt: 1 }, new: true }
+    );
+};
+
+// Updates only apply while this worker still holds the lock
+const ownJob = (job: IJob) => ({ _id: job._id, lockedBy: WORKER_ID });
+
+const finishJob = async (job: IJob, set: Record<string, any>): Promise<void> => {
+    await Job.updateOne(ownJob(job), {
+        $set: { ...set, finishedAt: new Date() },
+        $unset: { lockedAt: 1, lockedBy: 1, dedupeKey: 1 },
+    });
+};
+
+const runJob = async (job: IJob): Promise<void> => {
+    const handler = handlers.get(job.type);
+
+    // Claimed back from a worker that died on its last attempt
+    if (!handler || job.attempts > job.maxAttempts) {
+        await finishJob(job, { status: 'failed', lastError: job.lastError || 'Job stopped responding' });
+        return;
+    }
+
+    const context: JobContext = {
+        job,
+        reportProgress: async (completed, total) => {
+            await Job.updateOne(ownJob(job), { $set: { progress: { completed, total }, lockedAt: new Date() } });
+        },
+    };
+
+    try {
+        const result = await handler(job.payload, context);
+        await finishJob(job, { status: 'succeeded', result: result || {} });
+        console.log(`✅ Job ${job.type} ${job._id} succeeded (attempt ${job.attempts})`);
+    } catch (error: any) {
+        const lastError = error?.message || String(error);
+
+        if (job.attempts >= job.maxAttempts) {
+            await finishJob(job, { status: 'failed', lastError });
+            console.error(`❌ Job ${job.type} ${job._id} failed for good after ${job.attempts} attempts: ${lastError}`);
+            return;
+        }
+
+        // Honour TMDB's Retry-After when we have one
+        const delay = error instanceof UpstreamUnavailable && error.retryAfterMs
+            ? error.retryAfterMs
+            : Math.max(RETRY_BASE_MS, backoffDelay(job.attempts, RETRY_BASE_MS, RETRY_MAX_MS));
+
+        await Job.updateOne(ownJob(job), {
+            $set: { status: 'queued', runAt: new Date(Date.now() + delay), lastError },
+            $unset: { lockedAt: 1, lockedBy: 1 },
+        });
+        console.warn(`⚠️ Job ${job.type} ${job._id} attempt ${job.attempts} failed, retrying in ${Math.round(delay / 1000)}s: ${lastError}`);
+    }
+};
+
+let workerRunning = false;
+let concurrency = 0;
+let polling = false;
+let pollAgain = false; // Set when a wake-up arrives mid-poll
+let active = 0;
+let timer: NodeJS.Timeout | null = null;
+
+const poll = async (): Promise<void> => {
+    if (!workerRunning) return;
+    if (polling) {
+        pollAgain = true;
+        return;
+    }
+    polling = true;
+    pollAgain = false;
+    if (timer) {
+        clearTimeout(timer);
+        timer = null;
+    }
+
+    try {
+        while (workerRunning && active < concurrency) {
+            const job = await claimNextJob();
+            if (!job) break;
+
+            active++;
+            runJob(job)
+                .catch((error) => console.error(`Job ${job._id} crashed:`, error))
+                .finally(() => {
+                    active--;
+                    void poll();
+                });
+        }
+    } catch (error) {
+        console.error('Job worker poll error:', error);
+    } finally {
+        polling = false;
+        if (workerRunning && !timer) timer = setTimeout(() => void poll(), pollAgain ? 0 : POLL_INTERVAL_MS);
+    }
+};
+
+// Picks up a job this process just enqueued without waiting for the next poll
+const wakeJobWorker = (): void => {
+    if (workerRunning) void poll();
+};
+
+// JOB_WORKERS (default 2) jobs run at once; 0 turns this process into an enqueue-only API instance
+export const startJobWorker = (): void => {
+    if (workerRunning) return;
+
+    concurrency = parseInt(process.env.JOB_WORKERS ?? '2');
+    if (!(concurrency > 0)) return;
+
+    workerRunning = true;
+    console.log(`👷 Job worker ${WORKER_ID} started (${concurrency} at a time, handles: ${[...handlers.keys()].join(', ')})`);
+    void poll();
+};
+
+export const stopJobWorker = (): void => {
+    workerRunning = false;
+    if (timer) {
+        clearTimeout(timer);
+        timer = null;
+    }
+};
@@ -0,0 +1,111 @@
+import { Media, IMediaPerson } from '../models/Media';
+import TMDBService from './tmdb.service';
+import { UpstreamUnavailable } from '../utils/resilience';
+
+// Genre, language and people metadata stored on Media so the library can be filtered
+// and reported on without calling TMDB for every row
+
+const TOP_CAST = 10;
+const DIRECTOR_JOBS = ['Director'];
+
+export interface MediaMetadata {
+    genres: string[];
+    runtime?: number;
+    originalLanguage?: string;
+    countries: string[];
+    cast: IMediaPerson[];
+    directors: IMediaPerson[];
+    creators: IMediaPerson[];
+    metadataUpdatedAt?: Date;
+}
+
+// Details cached before credits were part of the response have no `credits`;
+// those are returned without a timestamp so the backfill picks them up again
+export const extractMetadata = (type: 'movie' | 'tv', details: any): MediaMetadata => {
+    const credits = details?.credits;
+
+    const cast: IMediaPerson[] = (credits?.cast || [])
+        .slice()
+        .sort((a: any, b: any) => (a.order ?? 0) - (b.order ?? 0))
+        .slice(0, TOP_CAST)
+        .map((person: any) => ({ tmdbId: person.id, name: person.name, character: person.character || undefined }));
+
+    const directors: IMediaPerson[] = type === 'movie'
+        ? (credits?.crew || [])
+            .filter((person: any) => DIRECTOR_JOBS.includes(person.job))
+            .map((person: any) => ({ tmdbId: person.id, name: person.name }))
+        : [];
+
+    const creators: IMediaPerson[] = type === 'tv'
+        ? (details?.created_by || []).map((person: any) => ({ tmdbId: person.id, name: person.name }))
+        : [];
+
+    const runtime = type === 'movie' ? details?.runtime : details?.episode_run_time?.[0];
+
+    return {
+        genres: (details?.genres || []).map((genre: { name: string }) => genre.name),
+        runtime: runtime || undefined,
+        originalLanguage: details?.original_language || undefined,
+        countries: type === 'movie'
+            ? (details?.production_countries || []).map((country: { iso_3166_1: string }) => country.iso_3166_1)
+            : details?.origin_country || [],
+        cast,
+        directors,
+        creators,
+        metadataUpdatedAt: credits ? new Date() : undefined,
+    };
+};
+
+export const fetchMetadata = async (type: 'movie' | 'tv', tmdbId: number): Promise<MediaMetadata> => {
+    const details = type === 'movie'
+        ? await TMDBService.getMovieDetails(tmdbId)
+        : await TMDBService.getTVDetails(tmdbId);
+    return extractMetadata(type, details);
+};
+
+export interface BackfillResult {
+    titles: number;
+    updated: number; // Media rows, across all users
+    failed: number;
+}
+
+// Fills in metadata for rows added before it was stored. Each distinct title is fetched
+// once and written to every user's copy. Safe to re-run: only rows without metadata are touched.
+export const backfillMediaMetadata = async (
+    options: { limit?: number } = {}
+): Promise<BackfillResult> => {
+    const result: BackfillResult = { titles: 0, updated: 0, failed: 0 };
+    const missing = { metadataUpdatedAt: { $exists: false } };
+
+    const pipeline: any[] = [
+        { $match: missing },
+        { $group: { _id: { type: '$type', tmdbId: '$tmdbId' } } },
+        { $sort: { '_id.tmdbId': 1 } },
+    ];
+    if (options.limit) pipeline.push({ $limit: options.limit });
+
+    const titles = await Media.aggregate(pipeline);
+
+    for (const { _id: { type, tmdbId } } of titles) {
+        result.titles++;
+
+        try {
+            const metadata = await fetchMetadata(type, tmdbId);
+            if (!metadata.metadataUpdatedAt) {
+                // Cached details predate credits; try again once the cache entry expires
+                result.failed++;
+                continue;
+            }
+
+            const update = await Media.updateMany({ type, tmdbId, ...missing }, { $set: metadata });
+            result.updated += update.modifiedCount;
+        } catch (error: any) {
+            // TMDB being down won't get better within this run
+            if (error instanceof UpstreamUnavailable) throw error;
+            console.error(`❌ Metadata backfill failed for ${type}:${tmdbId}:`, error.message);
+            result.failed++;
+        }
+    }
+
+    return result;
+};
@@ -0,0 +1,173 @@
+import mongoose from 'mongoose';
+import { Media } from '../models/Media';
+import { EpisodeProgress } from '../models/EpisodeProgress';
+import TMDBService from './tmdb.service';
+
+// Compact summary of a user's library, used to personalize recommendations
+
+export interface HistoryItem {
+    ref: string; // Short handle ("H3") the model can cite
+    tmdbId: number;
+    type: 'movie' | 'tv';
+    title: string;
+    status: 'completed' | 'watching' | 'dropped';
+    rating?: number;
+    lastActivity?: Date;
+    genres: string[];
+}
+
+export interface ViewingProfile {
+    history: HistoryItem[];
+    favoriteGenres: { name: string; weight: number }[];
+    libraryKeys: Set<string>; // `${type}:${tmdbId}` of everything already in the library
+    libraryTitles: string[];
+}
+
+const MAX_COMPLETED = 15;
+const MAX_WATCHING = 8;
+const MAX_DROPPED = 5;
+const DROPPED_AFTER_DAYS = 60; // A "watching" show untouched this long counts as dropped
+
+export const libraryKey = (type: string, tmdbId: number): string => `${type}:${tmdbId}`;
+
+// Positive for liked titles, negative for disliked or dropped ones
+export const itemWeight = (item: HistoryItem): number => {
+    if (item.status === 'dropped') return -1;
+    if (item.rating === undefined) return item.status === 'completed' ? 1 : 0.5;
+    return item.rating >= 3 ? item.rating - 2 : item.rating - 3;
+};
+
+// Offline mode only looks at TMDB responses that are already cached
+const fetchGenres = async (type: 'movie' | 'tv', tmdbId: number, offline: boolean): Promise<string[]> => {
+    try {
+        const details = offline
+            ? await TMDBService.peek(type, `${tmdbId}`)
+            : type === 'movie'
+                ? await TMDBService.getMovieDetails(tmdbId)
+                : await TMDBService.getTVDetails(tmdbId);
+        return (details?.genres || []).map((genre: { name: string }) => genre.name);
+    } catch {
+        return [];
+    }
+};
+
+export const buildViewingProfile = async (
+    userId: string,
+    options: { offline?: boolean } = {}
+): Promise<ViewingProfile> => {
+    const userObjectId = new mongoose.Types.ObjectId(userId);
+
+    const library = await Media.find({ addedBy: userObjectId })
+        .select('tmdbId type title watchStatus rating genres updatedAt')
+        .sort({ updatedAt: -1 })
+        .lean();
+
+    // Most recent watched episode per show tells us whether a show is active or dropped
+    const lastEpisodeActivity = await EpisodeProgress.aggregate([
+        { $match: { addedBy: userObjectId, watchStatus: 'watched', watchedAt: { $ne: null } } },
+        { $group: { _id: '$tmdbId', lastWatchedAt: { $max: '$watchedAt' } } },
+    ]);
+    const lastWatchedByShow = new Map<number, Date>(
+        lastEpisodeActivity.map((row: any) => [row._id, row.lastWatchedAt])
+    );
+
+    const droppedCutoff = Date.now() - DROPPED_AFTER_DAYS * 24 * 60 * 60 * 1000;
+    const completed: HistoryItem[] = [];
+    const watching: HistoryItem[] = [];
+    const dropped: HistoryItem[] = [];
+
+    for (const media of library) {
+        const base = {
+            ref: '',
+            tmdbId: media.tmdbId,
+            type: media.type,
+            title: media.title,
+            rating: media.rating ?? undefined,
+            genres: media.genres || [],
+        };
+
+        if (media.watchStatus === 'completed') {
+            completed.push({ ...base, status: 'completed', lastActivity: media.updatedAt });
+        } else if (media.watchStatus === 'watching') {
+            const lastActivity = media.type === 'tv'
+                ? lastWatchedByShow.get(media.tmdbId) || media.updatedAt
+                : media.updatedAt;
+            const isDropped = !!lastActivity && lastActivity.getTime() < droppedCutoff;
+
+            (isDropped ? dropped : watching).push({
+                ...base,
+                status: isDropped ? 'dropped' : 'watching',
+                lastActivity,
+            });
+        }
+    }
+
+    const history = [
+        ...completed.slice(0, MAX_COMPLETED),
+        ...watching.slice(0, MAX_WATCHING),
+        ...dropped.slice(0, MAX_DROPPED),
+    ];
+    history.forEach((item, index) => {
+        item.ref = `H${index + 1}`;
+    });
+
+    // Rows added before genres were stored fall back to (cached) TMDB details
+    await Promise.all(history.filter((item) => item.genres.length === 0).map(async (item) => {
+        item.genres = await fetchGenres(item.type, item.tmdbId, !!options.offline);
+    }));
+
+    const genreWeights = new Map<string, number>();
+    for (const item of history) {
+        for (const genre of item.genres) {
+            genreWeights.set(genre, (genreWeights.get(genre) || 0) + itemWeight(item));
+        }
+    }
+
+    const favoriteGenres = Array.from(genreWeights.entries())
+        .filter(([, weight]) => weight > 0)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 5)
+        .map(([name, weight]) => ({ name, weight: Number(weight.toFixed(1)) }));
+
+    return {
+        history,
+        favoriteGenres,
+        libraryKeys: new Set(library.map((media) => libraryKey(media.type, media.tmdbId))),
+        libraryTitles: library.map((media) => media.title),
+    };
+};
+
+const formatDate = (date?: Date): string => (date ? new Date(date).toISOString().slice(0, 10) : 'unknown date');
+
+// Renders the profile as a prompt section; refs let the model cite what drove each pick
+export const formatProfileForPrompt = (profile: ViewingProfile): string => {
+    if (profile.history.length === 0) {
+        return 'The user has no viewing history yet.';
+    }
+
+    const describe = (item: HistoryItem): string => {
+        const parts = [`[${item.ref}] ${item.title} (${item.type})`];
+        if (item.status === 'completed') parts.push(`finished ${formatDate(item.lastActivity)}`);
+        if (item.status === 'watching') parts.push(`currently watching, last activity ${formatDate(item.lastActivity)}`);
+        if (item.status === 'dropped') parts.push(`dropped, last activity ${formatDate(item.lastActivity)}`);
+        if (item.rating !== undefined) parts.push(`rated ${item.rating}/5`);
+        if (item.genres.length > 0) parts.push(`genres: ${item.genres.join(', ')}`);
+        return `- ${parts.join(' — ')}`;
+    };
+
+    const lines = [
+        `Today is ${formatDate(new Date())}.`,
+        "The user's viewing history:",
+        ...profile.history.map(describe),
+    ];
+
+    if (profile.favoriteGenres.length > 0) {
+        lines.push(`Favorite genres: ${profile.favoriteGenres.map((genre) => genre.name).join(', ')}`);
+    }
+
+    if (profile.libraryTitles.length > 0) {
+        lines.push(`Already in their library (do NOT recommend these): ${profile.libraryTitles.slice(0, 60).join('; ')}`);
+    }
+
+    return lines.join('\n');
+};
@@ -0,0 +1,145 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { formatProfileForPrompt } from '../profile.service';
+import { formatConversationForPrompt } from '../conversation.service';
+import {
+    ProviderRecommendation,
+    ProviderStreamEvent,
+    RecommendationProvider,
+    RecommendationRequest
+} from '../recommendation.service';
+import {
+    buildRepairPrompt,
+    MAX_RECOMMENDATIONS,
+    parseRecommendations,
+    RecommendationParseError,
+    RecommendationStreamParser
+} from '../../utils/recommendations';
+
+// "gemini-pro" has been retired by Google; override with GEMINI_MODEL when this one is too
+const DEFAULT_GEMINI_MODEL = 'gemini-1.5-flash';
+const MAX_GENERATION_ATTEMPTS = 2; // First answer + one repair round
+
+export class GeminiProvider implements RecommendationProvider {
+    readonly name = 'gemini';
+    readonly offline = false;
+    private genAI: GoogleGenerativeAI;
+    private model: string;
+
+    constructor(apiKey: string, model?: string) {
+        if (!apiKey) {
+            throw new Error('GEMINI_API_KEY is not set (use AI_PROVIDER=local to run without it)');
+        }
+
+        this.genAI = new GoogleGenerativeAI(apiKey);
+        this.model = model || DEFAULT_GEMINI_MODEL;
+    }
+
+    async recommend(request: RecommendationRequest): Promise<ProviderRecommendation[]> {
+        return this.generate(this.buildPrompt(request));
+    }
+
+    // The SDK has no way to abort a request, so on abort we stop reading the stream
+    // and nothing further is parsed, matched or sent
+    async *stream(request: RecommendationRequest, signal: AbortSignal): AsyncGenerator<ProviderStreamEvent> {
+        const model = this.genAI.getGenerativeModel({ model: this.model });
+        const result = await model.generateContentStream(this.buildPrompt(request));
+        const parser = new RecommendationStreamParser();
+
+        for await (const chunk of result.stream) {
+            if (signal.aborted) return;
+
+            const text = chunk.text();
+            yield { type: 'text', text };
+
+            for (const recommendation of parser.push(text)) {
+                yield { type: 'recommendation', recommendation };
+            }
+        }
+
+        console.log('🤖 AI Response (streamed):', parser.text);
+
+        // Nothing usable came through incrementally: fall back to the full parser and repair round
+        if (parser.count === 0) {
+            let recommendations: ProviderRecommendation[];
+            try {
+                recommendations = parseRecommendations(parser.text);
+            } catch (error) {
+                if (!(error instanceof RecommendationParseError) || signal.aborted) throw error;
+                recommendations = await this.generate(buildRepairPrompt(parser.text), MAX_GENERATION_ATTEMPTS - 1);
+            }
+
+            for (const recommendation of recommendations) {
+                if (signal.aborted) return;
+                yield { type: 'recommendation', recommendation };
+            }
+        }
+    }
+
+    private buildPrompt({ message, profile, personalize, history }: RecommendationRequest): string {
+        // Library details only go into the prompt when personalization is requested
+        const historySection = personalize
+            ? `
+        ${formatProfileForPrompt(profile)}
+
+        Use this history to tailor the recommendations. For each recommendation add
+        "basedOn": an array of the refs (e.g. ["H1", "H4"]) of the history items that drove it.
+        `
+            : '';
+
+        const conversationSection = history.length > 0
+            ? `
+        The conversation so far (the user's new query may refer back to it, e.g. "the second one"):
+        ${formatConversationForPrompt(history)}
+
+        Do not repeat titles you already suggested.
+        `
+            : '';
+
+        return `
+        You are a movie and TV show expert assistant. Analyze the user's query and return relevant movie/TV show recommendations.
+
+        User Query: "${message}"
+
+        Please provide:
+        1. If the user is looking for specific content (like a movie/show), identify it and recommend similar content
+        2. If the user describes a plot/character, try to identify the actual movie/show
+        ${conversationSection}${historySection}
+        Return ONLY a JSON array in this exact format:
+        [
+          {
+            "title": "Movie/TV Show Title",
+            "type": "movie" or "tv",
+            "reason": "Why you're recommending this (similar genre/plot/theme)",
+            "year": "Release year if known",
+            "keywords": ["keyword1", "keyword2", "keyword3"] for searching
+          }
+        ]
+
+        Return maximum ${MAX_RECOMMENDATIONS} recommendations. If you can't identify or don't have recommendations, return empty array [].
+        `;
+    }
+
+    // Asks the model, and if the answer isn't valid JSON, asks it to repair its own output
+    private async generate(prompt: string, attempts: number = MAX_GENERATION_ATTEMPTS): Promise<ProviderRecommendation[]> {
+        const model = this.genAI.getGenerativeModel({ model: this.model });
+        let currentPrompt = prompt;
+        let lastError: RecommendationParseError | null = null;
+
+        for (let attempt = 1; attempt <= attempts; attempt++) {
+            const result = await model.generateContent(currentPrompt);
+            const text = result.response.text();
+
+            console.log(`🤖 AI Response (attempt ${attempt}):`, text);
+
+            try {
+                return parseRecommendations(text);
+            } catch (error) {
+                if (!(error instanceof RecommendationParseError)) throw error;
+                lastError = error;
+                currentPrompt = buildRepairPrompt(text);
+            }
+        }
+
+        throw lastError!;
+    }
+}
@@ -0,0 +1,282 @@
+import { Media } from '../../models/Media';
+import TMDBService from '../tmdb.service';
+import { libraryKey, ViewingProfile } from '../profile.service';
+import {
+    ProviderRecommendation,
+    ProviderStreamEvent,
+    RecommendationProvider,
+    RecommendationRequest
+} from '../recommendation.service';
+import { IConversationMessage } from '../../models/Conversation';
+import { MAX_RECOMMENDATIONS } from '../../utils/recommendations';
+
+// Deterministic, offline stand-in for the AI model. Candidates are titles other users
+// already have in their libraries; genres come from Media or, failing that, cached TMDB details.
+
+const CANDIDATE_POOL = 300;
+
+// TMDB genre names and the everyday words people use for them
+const GENRE_TERMS: Record<string, string[]> = {
+    'Action': ['action', 'fight', 'fights', 'explosions'],
+    'Adventure': ['adventure', 'quest', 'journey', 'treasure'],
+    'Animation': ['animation', 'animated', 'anime', 'cartoon'],
+    'Comedy': ['comedy', 'funny', 'hilarious', 'laugh', 'sitcom'],
+    'Crime': ['crime', 'heist', 'gangster', 'mafia', 'detective', 'cop'],
+    'Documentary': ['documentary', 'docuseries'],
+    'Drama': ['drama', 'emotional', 'moving'],
+    'Family': ['family', 'kids', 'children'],
+    'Fantasy': ['fantasy', 'magic', 'dragon', 'dragons', 'wizard'],
+    'History': ['history', 'historical'],
+    'Horror': ['horror', 'scary', 'creepy', 'halloween', 'slasher'],
+    'Music': ['music', 'musical', 'band'],
+    'Mystery': ['mystery', 'whodunit'],
+    'Romance': ['romance', 'romantic', 'love'],
+    'Science Fiction': ['sci-fi', 'scifi', 'science', 'space', 'alien', 'aliens', 'robot', 'robots', 'future'],
+    'Thriller': ['thriller', 'suspense', 'tense'],
+    'War': ['war', 'soldier', 'soldiers', 'battle'],
+    'Western': ['western', 'cowboy'],
+};
+
+// TV genres are combined ("Sci-Fi & Fantasy"); split them into their movie counterparts
+const expandGenre = (genre: string): string[] =>
+    genre.split(' & ').map((part) => (part === 'Sci-Fi' ? 'Science Fiction' : part === 'Politics' ? 'War' : part));
+
+const TV_TERMS = ['tv', 'show', 'shows', 'series', 'season', 'episodes'];
+const MOVIE_TERMS = ['movie', 'movies', 'film', 'films'];
+
+const STOP_WORDS = new Set([
+    'about', 'after', 'also', 'anything', 'been', 'from', 'good', 'have', 'like', 'looking', 'more', 'much',
+    'please', 'recommend', 'similar', 'some', 'something', 'that', 'there', 'these', 'they', 'this', 'want',
+    'watch', 'what', 'where', 'which', 'with', 'would', 'your',
+]);
+
+const tokenize = (text: string): string[] => text.toLowerCase().match(/[a-z0-9-]+/g) || [];
+
+interface Candidate {
+    tmdbId: number;
+    type: 'movie' | 'tv';
+    title: string;
+    overview?: string;
+    posterPath?: string;
+    backdropPath?: string;
+    releaseDate?: string;
+    vote_average?: number;
+    owners: number;
+    genres: string[];
+}
+
+interface ParsedQuery {
+    genres: string[];
+    keywords: string[];
+    type?: 'movie' | 'tv';
+    releasedBefore?: number; // Year bounds from "older"/"newer" follow-ups
+    releasedAfter?: number;
+}
+
+const parseQuery = (message: string): ParsedQuery => {
+    const tokens = tokenize(message);
+    const genres = Object.keys(GENRE_TERMS).filter((genre) =>
+        GENRE_TERMS[genre].some((term) => tokens.includes(term))
+    );
+
+    const wantsTV = tokens.some((token) => TV_TERMS.includes(token));
+    const wantsMovie = tokens.some((token) => MOVIE_TERMS.includes(token));
+
+    return {
+        genres,
+        keywords: Array.from(new Set(tokens.filter((token) =>
+            token.length >= 4
+            && !STOP_WORDS.has(token)
+            && !TV_TERMS.includes(token)
+            && !MOVIE_TERMS.includes(token)
+        ))),
+        type: wantsTV === wantsMovie ? undefined : wantsTV ? 'tv' : 'movie',
+    };
+};
+
+const ORDINALS: Record<string, number> = {
+    first: 0, '1st': 0, second: 1, '2nd': 1, third: 2, '3rd': 2, fourth: 3, '4th': 3, fifth: 4, '5th': 4,
+};
+
+// Follow-ups borrow from earlier turns: "the second one" points at a previous pick,
+// and a message with nothing to match on reuses the last question
+const applyConversation = (query: ParsedQuery, message: string, history: IConversationMessage[]): ParsedQuery => {
+    const lastAnswer = [...history].reverse().find((turn) => turn.role === 'assistant' && turn.recommendations.length > 0);
+    const ordinal = tokenize(message).find((token) => token in ORDINALS);
+    const referenced = lastAnswer && ordinal !== undefined ? lastAnswer.recommendations[ORDINALS[ordinal]] : undefined;
+
+    if (referenced) {
+        const genres = referenced.keywords.filter((keyword) => keyword in GENRE_TERMS);
+        const keywords = referenced.keywords
+            .filter((keyword) => !(keyword in GENRE_TERMS))
+            .flatMap(tokenize)
+            .filter((token) => token.length >= 4 && !STOP_WORDS.has(token));
+
+        const tokens = tokenize(message);
+        const year = referenced.year ? Number(referenced.year) : undefined;
+        const wantsOlder = tokens.includes('older');
+        const wantsNewer = tokens.includes('newer') || tokens.includes('recent');
+
+        return {
+            genres: Array.from(new Set([...query.genres, ...genres])),
+            keywords: Array.from(new Set([...query.keywords.filter((token) =>
+                !(token in ORDINALS) && !['older', 'newer', 'recent'].includes(token)
+            ), ...keywords])),
+            type: query.type || referenced.type,
+            releasedBefore: year && wantsOlder ? year : undefined,
+            releasedAfter: year && wantsNewer ? year : undefined,
+        };
+    }
+
+    if (query.genres.length === 0 && query.keywords.length === 0) {
+        const lastQuestion = [...history].reverse().find((turn) => turn.role === 'user');
+        if (lastQuestion) {
+            const previous = parseQuery(lastQuestion.content);
+            return { ...previous, type: query.type || previous.type };
+        }
+    }
+
+    return query;
+};
+
+export class LocalProvider implements RecommendationProvider {
+    readonly name = 'local';
+    readonly offline = true;
+
+    async recommend(request: RecommendationRequest): Promise<ProviderRecommendation[]> {
+        const { message, profile, personalize, history, exclude } = request;
+        const query = applyConversation(parseQuery(message), message, history);
+        const candidates = (await this.loadCandidates())
+            .filter((candidate) => !exclude.has(libraryKey(candidate.type, candidate.tmdbId)))
+            .filter((candidate) => !query.type || candidate.type === query.type)
+            .filter((candidate) => {
+                const year = Number((candidate.releaseDate || '').slice(0, 4));
+                if (query.releasedBefore && !(year && year < query.releasedBefore)) return false;
+                if (query.releasedAfter && !(year && year > query.releasedAfter)) return false;
+                return true;
+            });
+
+        const tasteWeights = new Map<string, number>(
+            personalize ? profile.favoriteGenres.map((genre) => [genre.name, genre.weight]) : []
+        );
+        const maxTaste = Math.max(1, ...Array.from(tasteWeights.values()));
+
+        const scored = candidates.map((candidate) => {
+            const genres = new Set(candidate.genres.flatMap(expandGenre));
+            const matchedGenres = query.genres.filter((genre) => genres.has(genre));
+
+            const text = new Set(tokenize(`${candidate.title} ${candidate.overview || ''}`));
+            const matchedKeywords = query.keywords.filter((keyword) => text.has(keyword));
+
+            const taste = Array.from(genres).reduce((sum, genre) => sum + (tasteWeights.get(genre) || 0), 0) / maxTaste;
+
+            const score = matchedGenres.length * 3
+                + matchedKeywords.length * 2
+                + taste
+                + (candidate.vote_average || 0) / 10
+                + Math.log10(candidate.owners + 1) / 10;
+
+            return { candidate, score, relevant: matchedGenres.length + matchedKeywords.length > 0, matchedGenres, matchedKeywords };
+        });
+
+        // Fall back to the generally best-liked titles when nothing in the query matched
+        const anyRelevant = scored.some((entry) => entry.relevant);
+
+        return scored
+            .filter((entry) => !anyRelevant || entry.relevant)
+            .sort((a, b) => b.score - a.score || a.candidate.tmdbId - b.candidate.tmdbId || a.candidate.type.localeCompare(b.candidate.type))
+            .slice(0, MAX_RECOMMENDATIONS)
+            .map(({ candidate, matchedGenres, matchedKeywords }) => ({
+                title: candidate.title,
+                type: candidate.type,
+                reason: this.explain(matchedGenres, matchedKeywords),
+                year: candidate.releaseDate ? candidate.releaseDate.slice(0, 4) : undefined,
+                keywords: [...matchedGenres, ...matchedKeywords],
+                basedOn: personalize ? this.relatedHistory(candidate, profile) : undefined,
+                tmdbId: candidate.tmdbId,
+                posterPath: candidate.posterPath,
+                backdropPath: candidate.backdropPath,
+                releaseDate: candidate.releaseDate,
+                overview: candidate.overview,
+                vote_average: candidate.vote_average,
+            }));
+    }
+
+    // Scoring is instant, so "streaming" just replays the finished list one pick at a time
+    async *stream(request: RecommendationRequest, signal: AbortSignal): AsyncGenerator<ProviderStreamEvent> {
+        const recommendations = await this.recommend(request);
+        if (signal.aborted) return;
+
+        yield {
+            type: 'text',
+            text: recommendations.length > 0
+                ? `Found ${recommendations.length} matching titles.`
+                : 'No matching titles found.',
+        };
+
+        for (const recommendation of recommendations) {
+            if (signal.aborted) return;
+            yield { type: 'recommendation', recommendation };
+        }
+    }
+
+    // Every distinct title anyone has added, most widely tracked first
+    private async loadCandidates(): Promise<Candidate[]> {
+        const rows = await Media.aggregate([
+            {
+                $group: {
+                    _id: { tmdbId: '$tmdbId', type: '$type' },
+                    title: { $first: '$title' },
+                    overview: { $first: '$overview' },
+                    posterPath: { $first: '$posterPath' },
+                    backdropPath: { $first: '$backdrop_path' },
+                    releaseDate: { $first: '$releaseDate' },
+                    vote_average: { $max: '$vote_average' },
+                    genres: { $max: '$genres' },
+                    owners: { $sum: 1 },
+                },
+            },
+            { $sort: { owners: -1, vote_average: -1, '_id.tmdbId': 1 } },
+            { $limit: CANDIDATE_POOL },
+        ]);
+
+        return Promise.all(rows.map(async (row: any) => {
+            const details = row.genres?.length > 0 ? null : await TMDBService.peek(row._id.type, `${row._id.tmdbId}`);
+
+            return {
+                tmdbId: row._id.tmdbId,
+                type: row._id.type,
+                title: row.title,
+                overview: row.overview,
+                posterPath: row.posterPath,
+                backdropPath: row.backdropPath,
+                releaseDate: row.releaseDate,
+                vote_average: row.vote_average,
+                owners: row.owners,
+                genres: row.genres?.length > 0
+                    ? row.genres
+                    : (details?.genres || []).map((genre: { name: string }) => genre.name),
+            };
+        }));
+    }
+
+    private explain(genres: string[], keywords: string[]): string {
+        const parts: string[] = [];
+        if (genres.length > 0) parts.push(`matches the ${genres.join('/')} you asked for`);
+        if (keywords.length > 0) parts.push(`mentions ${keywords.map((keyword) => `"${keyword}"`).join(', ')}`);
+        return parts.length > 0
+            ? `${parts.join(' and ')}.`.replace(/^./, (first) => first.toUpperCase())
+            : 'Popular with other viewers.';
+    }
+
+    // History refs of liked titles that share a genre with the candidate
+    private relatedHistory(candidate: Candidate, profile: ViewingProfile): string[] {
+        const genres = new Set(candidate.genres);
+
+        return profile.history
+            .filter((item) => item.status !== 'dropped' && (item.rating === undefined || item.rating >= 3))
+            .filter((item) => item.genres.some((genre) => genres.has(genre)))
+            .slice(0, 2)
+            .map((item) => item.ref);
+    }
+}
@@ -0,0 +1,230 @@
+import TMDBService from './tmdb.service';
+import { buildViewingProfile, libraryKey, ViewingProfile } from './profile.service';
+import { suggestedKeys } from './conversation.service';
+import { IConversationMessage } from '../models/Conversation';
+import { AIRecommendation } from '../utils/recommendations';
+import { GeminiProvider } from './providers/gemini.provider';
+import { LocalProvider } from './providers/local.provider';
+
+// Pluggable backends for the AI assistant. Gemini needs network and an API key;
+// the local provider works from data already in Mongo, so dev and CI can use /ai/chat offline.
+
+export interface RecommendationRequest {
+    message: string;
+    profile: ViewingProfile;
+    personalize: boolean;
+    history: IConversationMessage[]; // Earlier turns of the conversation, already trimmed to budget
+    exclude: Set<string>; // libraryKey()s that must not be recommended again
+}
+
+// Providers that already know the TMDB entry fill in tmdbId so it isn't looked up again
+export interface ProviderRecommendation extends AIRecommendation {
+    tmdbId?: number;
+    posterPath?: string;
+    backdropPath?: string;
+    releaseDate?: string;
+    overview?: string;
+    vote_average?: number;
+}
+
+export type ProviderStreamEvent =
+    | { type: 'text'; text: string }
+    | { type: 'recommendation'; recommendation: ProviderRecommendation };
+
+export interface RecommendationProvider {
+    readonly name: string;
+    readonly offline: boolean; // True when the provider never calls out to TMDB or an AI API
+    recommend(request: RecommendationRequest): Promise<ProviderRecommendation[]>;
+    // Yields text as it is generated and each recommendation as soon as it is complete.
+    // Stops early once `signal` is aborted.
+    stream(request: RecommendationRequest, signal: AbortSignal): AsyncGenerator<ProviderStreamEvent>;
+}
+
+export interface ResolvedRecommendation extends Omit<AIRecommendation, 'basedOn'> {
+    basedOn?: Array<{ tmdbId: number; type: 'movie' | 'tv'; title: string }>;
+    tmdbId: number | null;
+    posterPath?: string;
+    backdropPath?: string;
+    releaseDate?: string;
+    overview?: string;
+    vote_average?: number;
+}
+
+export type RecommendationProviderKind = 'gemini' | 'local';
+
+// AI_PROVIDER wins; otherwise Gemini when a key is configured, local when not
+export const createRecommendationProvider = (
+    kind: string | undefined = process.env.AI_PROVIDER || (process.env.GEMINI_API_KEY ? 'gemini' : 'local')
+): RecommendationProvider => {
+    switch (kind) {
+        case 'gemini':
+            return new GeminiProvider(process.env.GEMINI_API_KEY as string, process.env.GEMINI_MODEL);
+        case 'local':
+            return new LocalProvider();
+        default:
+            throw new Error(`Unknown AI_PROVIDER "${kind}" (expected "gemini" or "local")`);
+    }
+};
+
+let provider: RecommendationProvider | null = null;
+
+export const getRecommendationProvider = (): RecommendationProvider => {
+    if (!provider) {
+        provider = createRecommendationProvider();
+        console.log(`🤖 AI recommendations provider: ${provider.name}`);
+    }
+    return provider;
+};
+
+const normalizeTitle = (title: string): string =>
+    title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Finds the TMDB entry for a recommendation: same type, exact title and year if possible
+const resolveRecommendation = async ({ basedOn: _basedOn, ...rec }: ProviderRecommendation): Promise<ResolvedRecommendation> => {
+    if (rec.tmdbId) {
+        return { ...rec, tmdbId: rec.tmdbId };
+    }
+
+    try {
+        const { results } = await TMDBService.search(rec.title);
+        const candidates = results.filter((item: any) => item.media_type === rec.type);
+
+        const titleOf = (item: any): string => ('title' in item ? item.title : item.name) || '';
+        const yearOf = (item: any): string =>
+            (('release_date' in item ? item.release_date : item.first_air_date) || '').slice(0, 4);
+
+        const wanted = normalizeTitle(rec.title);
+        const sameTitle = candidates.filter((item: any) => normalizeTitle(titleOf(item)) === wanted);
+        const pool = sameTitle.length > 0 ? sameTitle : candidates;
+
+        const match = (rec.year && pool.find((item: any) => Math.abs(Number(yearOf(item)) - Number(rec.year)) <= 1))
+            || pool[0];
+
+        if (!match) {
+            return { ...rec, tmdbId: null };
+        }
+
+        return {
+            ...rec,
+            title: titleOf(match) || rec.title,
+            year: yearOf(match) || rec.year,
+            tmdbId: match.id,
+            posterPath: match.poster_path,
+            backdropPath: match.backdrop_path,
+            releaseDate: 'release_date' in match ? match.release_date : match.first_air_date,
+            overview: match.overview,
+            vote_average: match.vote_average,
+        };
+    } catch (error: any) {
+        console.error(`Failed to resolve "${rec.title}" on TMDB:`, error.message);
+        return { ...rec, tmdbId: null };
+    }
+};
+
+// Turns the model's history refs into the library items they point at
+const citeHistory = (refs: string[] | undefined, profile: ViewingProfile | null) => {
+    if (!refs || !profile) return undefined;
+
+    return refs
+        .map((ref) => profile.history.find((item) => item.ref === ref))
+        .filter((item): item is ViewingProfile['history'][number] => !!item)
+        .map((item) => ({ tmdbId: item.tmdbId, type: item.type, title: item.title }));
+};
+
+export interface RecommendationTurn {
+    recommendations: ResolvedRecommendation[];
+    personalized: boolean;
+    provider: string;
+}
+
+const loadRequestContext = async (
+    activeProvider: RecommendationProvider,
+    userId: string,
+    options: { personalize?: boolean; history?: IConversationMessage[] }
+) => {
+    const personalize = !!options.personalize;
+    const history = options.history || [];
+
+    // Library is always loaded so owned titles can be filtered out;
+    // the provider only uses its details when personalization is requested
+    const profile = await buildViewingProfile(userId, { offline: activeProvider.offline });
+    const exclude = new Set([...profile.libraryKeys, ...suggestedKeys(history)]);
+
+    return { profile, personalize, history, exclude };
+};
+
+// One question to the assistant: ask the provider, resolve every pick to a TMDB entry so it
+// can be added to the watchlist directly, and drop titles the user owns or was already shown
+export const recommendForUser = async (
+    userId: string,
+    message: string,
+    options: { personalize?: boolean; history?: IConversationMessage[] } = {}
+): Promise<RecommendationTurn> => {
+    const activeProvider = getRecommendationProvider();
+    const { profile, personalize, history, exclude } = await loadRequestContext(activeProvider, userId, options);
+
+    const picks = await activeProvider.recommend({ message, profile, personalize, history, exclude });
+
+    const resolved = await Promise.all(picks.map(async (rec) => ({
+        ...(await resolveRecommendation(rec)),
+        basedOn: citeHistory(rec.basedOn, personalize ? profile : null),
+    })));
+
+    return {
+        recommendations: resolved.filter((rec) =>
+            rec.tmdbId === null || !exclude.has(libraryKey(rec.type, rec.tmdbId))
+        ),
+        personalized: personalize,
+        provider: activeProvider.name,
+    };
+};
+
+export type RecommendationStreamEvent =
+    | { type: 'text'; text: string }
+    | { type: 'recommendation'; index: number; recommendation: ResolvedRecommendation }
+    | { type: 'done'; count: number; personalized: boolean; provider: string };
+
+// Streaming variant of recommendForUser. Each pick is matched against TMDB while the
+// provider keeps generating, and emitted as soon as its match is known.
+export const streamForUser = async (
+    userId: string,
+    message: string,
+    options: { personalize?: boolean; signal: AbortSignal },
+    emit: (event: RecommendationStreamEvent) => void
+): Promise<void> => {
+    const { signal } = options;
+    const activeProvider = getRecommendationProvider();
+    const { profile, personalize, history, exclude } = await loadRequestContext(activeProvider, userId, options);
+
+    const pending: Promise<void>[] = [];
+    let index = 0;
+    let count = 0;
+
+    for await (const event of activeProvider.stream({ message, profile, personalize, history, exclude }, signal)) {
+        if (signal.aborted) return;
+
+        if (event.type === 'text') {
+            emit(event);
+            continue;
+        }
+
+        const rec = event.recommendation;
+        const position = index++;
+        pending.push((async () => {
+            const resolved = {
+                ...(await resolveRecommendation(rec)),
+                basedOn: citeHistory(rec.basedOn, personalize ? profile : null),
+            };
+            if (signal.aborted) return;
+            if (resolved.tmdbId !== null && exclude.has(libraryKey(resolved.type, resolved.tmdbId))) return;
+
+            count++;
+            emit({ type: 'recommendation', index: position, recommendation: resolved });
+        })());
+    }
+
+    await Promise.all(pending);
+    if (signal.aborted) return;
+
+    emit({ type: 'done', count, personalized: personalize, provider: activeProvider.name });
+};
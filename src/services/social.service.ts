@@ -0,0 +1,208 @@
+import mongoose from 'mongoose';
+import { Activity, ActivityVerb, IActivityMedia } from '../models/Activity';
+import { Block } from '../models/Block';
+import { Follow } from '../models/Follow';
+import { Review } from '../models/Review';
+import { ReviewComment } from '../models/ReviewComment';
+import { User, Visibility } from '../models/User';
+import { displayName, visibilityOf } from '../utils/privacy';
+
+// Follows, blocks and the activity feed. Activities are stored once per actor
+// and the feed is assembled on read from the people the reader follows, so a
+// privacy change or a block takes effect on past events immediately.
+
+export class FeedQueryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'FeedQueryError';
+    }
+}
+
+const MAX_FEED_LIMIT = 50;
+
+// Flipping a status or rating back and forth shouldn't flood followers' feeds
+const REPEAT_WINDOW_MS = 60 * 60 * 1000;
+
+export interface FeedItem {
+    id: string;
+    verb: ActivityVerb;
+    actor: { handle: string; name: string };
+    media: IActivityMedia;
+    rating?: number;
+    seasonNumber?: number;
+    createdAt: Date;
+}
+
+// Never throws: a failed feed write must not fail the library change that caused it
+export const recordActivity = async (
+    actorId: string,
+    verb: ActivityVerb,
+    media: IActivityMedia,
+    extra: { rating?: number; seasonNumber?: number } = {}
+): Promise<void> => {
+    try {
+        const same = {
+            actor: actorId,
+            verb,
+            'media.tmdbId': media.tmdbId,
+            'media.type': media.type,
+        };
+
+        if (verb === 'season_completed') {
+            // Once per season; unwatching and rewatching the finale doesn't count again
+            if (await Activity.exists({ ...same, seasonNumber: extra.seasonNumber })) return;
+        } else if (verb !== 'added') {
+            const recent = await Activity.findOne({
+                ...same,
+                createdAt: { $gte: new Date(Date.now() - REPEAT_WINDOW_MS) },
+            });
+            if (recent) {
+                if (verb === 'rated' && recent.rating !== extra.rating) {
+                    recent.rating = extra.rating;
+                    await recent.save();
+                }
+                return;
+            }
+        }
+
+        await Activity.create({
+            actor: actorId,
+            verb,
+            media: {
+                tmdbId: media.tmdbId,
+                type: media.type,
+                title: media.title,
+                posterPath: media.posterPath || undefined,
+            },
+            ...extra,
+        });
+    } catch (error) {
+        console.error(`Failed to record ${verb} activity:`, error);
+    }
+};
+
+// Users on either side of a block with `userId`
+export const blockedUserIds = async (userId: string): Promise<Set<string>> => {
+    const blocks = await Block.find({ $or: [{ blocker: userId }, { blocked: userId }] })
+        .select('blocker blocked')
+        .lean();
+
+    return new Set(blocks.map((block) =>
+        block.blocker.toString() === userId ? block.blocked.toString() : block.blocker.toString()
+    ));
+};
+
+export const isBlockedBetween = async (userId: string, otherId: string): Promise<boolean> =>
+    !!(await Block.exists({
+        $or: [
+            { blocker: userId, blocked: otherId },
+            { blocker: otherId, blocked: userId },
+        ],
+    }));
+
+const encodeFeedCursor = (createdAt: Date, id: mongoose.Types.ObjectId): string =>
+    Buffer.from(JSON.stringify({ t: createdAt.toISOString(), id: id.toString() })).toString('base64url');
+
+const decodeFeedCursor = (cursor: string): { createdAt: Date; id: mongoose.Types.ObjectId } => {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        throw new FeedQueryError('Invalid cursor');
+    }
+
+    const createdAt = new Date(parsed?.t);
+    if (isNaN(createdAt.getTime()) || !mongoose.Types.ObjectId.isValid(parsed?.id)) {
+        throw new FeedQueryError('Invalid cursor');
+    }
+
+    return { createdAt, id: new mongoose.Types.ObjectId(parsed.id) };
+};
+
+// Newest first. Only followed users who share their watchlist appear, since
+// activities reveal what is in it.
+export const getFeed = async (
+    userId: string,
+    options: { limit?: number; cursor?: string } = {}
+): Promise<{ items: FeedItem[]; nextCursor: string | null }> => {
+    const limit = Math.min(Math.max(options.limit || 20, 1), MAX_FEED_LIMIT);
+    const position = options.cursor ? decodeFeedCursor(options.cursor) : null;
+
+    const [follows, blocked] = await Promise.all([
+        Follow.find({ follower: userId }).select('following').lean(),
+        blockedUserIds(userId),
+    ]);
+
+    const followedIds = follows
+        .map((follow) => follow.following.toString())
+        .filter((id) => !blocked.has(id));
+
+    if (followedIds.length === 0) return { items: [], nextCursor: null };
+
+    const actors = await User.find({ _id: { $in: followedIds }, handle: { $exists: true } })
+        .select('handle firstname lastname privacy')
+        .lean();
+
+    const visibleActors = new Map(actors
+        .filter((actor) => visibilityOf(actor.privacy, 'watchlist') !== Visibility.PRIVATE)
+        .map((actor) => [actor._id.toString(), { handle: actor.handle as string, name: displayName(actor) }]));
+
+    if (visibleActors.size === 0) return { items: [], nextCursor: null };
+
+    const filter: any = { actor: { $in: [...visibleActors.keys()].map((id) => new mongoose.Types.ObjectId(id)) } };
+    if (position) {
+        filter.$or = [
+            { createdAt: { $lt: position.createdAt } },
+            { createdAt: position.createdAt, _id: { $lt: position.id } },
+        ];
+    }
+
+    const activities = await Activity.find(filter)
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(limit + 1)
+        .lean();
+
+    const hasMore = activities.length > limit;
+    const page = activities.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+        items: page.map((activity) => ({
+            id: activity._id.toString(),
+            verb: activity.verb,
+            actor: visibleActors.get(activity.actor.toString())!,
+            media: activity.media,
+            rating: activity.rating,
+            seasonNumber: activity.seasonNumber,
+            createdAt: activity.createdAt as Date,
+        })),
+        nextCursor: hasMore && last ? encodeFeedCursor(last.createdAt as Date, last._id) : null,
+    };
+};
+
+// Part of account deletion
+export const removeSocialData = async (userId: string | mongoose.Types.ObjectId): Promise<void> => {
+    const id = new mongoose.Types.ObjectId(userId.toString());
+
+    await Follow.deleteMany({ $or: [{ follower: id }, { following: id }] });
+    await Block.deleteMany({ $or: [{ blocker: id }, { blocked: id }] });
+    await Activity.deleteMany({ actor: id });
+
+    const reviews = await Review.find({ author: id }).select('_id').lean();
+    await ReviewComment.deleteMany({ review: { $in: reviews.map((review) => review._id) } });
+    await Review.deleteMany({ author: id });
+
+    // Comments on other people's reviews become "deleted" placeholders so reply threads stay intact
+    const commented = await ReviewComment.aggregate([
+        { $match: { author: id, deleted: false } },
+        { $group: { _id: '$review', count: { $sum: 1 } } },
+    ]);
+    if (commented.length > 0) {
+        await Review.bulkWrite(commented.map((group) => ({
+            updateOne: { filter: { _id: group._id }, update: { $inc: { commentCount: -group.count } } },
+        })));
+    }
+    await ReviewComment.updateMany({ author: id }, { $set: { deleted: true, body: '' } });
+
+    await Review.updateMany({ likes: id }, { $pull: { likes: id }, $inc: { likeCount: -1 } });
+};
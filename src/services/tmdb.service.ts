@@ -1,5 +1,15 @@
 import axios from 'axios';
 import dotenv from 'dotenv';
+import { CacheEntry, CacheStore, createCacheStore } from './cache.service';
+import {
+    backoffDelay,
+    CircuitBreaker,
+    CircuitState,
+    parseRetryAfter,
+    Semaphore,
+    sleep,
+    UpstreamUnavailable,
+} from '../utils/resilience';
 dotenv.config();
 
 const TMDB_API_KEY = process.env.TMDB_API_KEY;
@@ -21,6 +31,9 @@ export interface TMDBMovie {
 export interface TMDBMovieDetails extends TMDBMovie {
     runtime: number;
     genres: { id: number; name: string }[];
+    original_language: string;
+    production_countries: { iso_3166_1: string; name: string }[];
+    credits?: TMDBCredits;
     tagline: string;
     status: string;
     budget: number;
@@ -29,6 +42,22 @@ export interface TMDBMovieDetails extends TMDBMovie {
     imdb_id: string;
 }
 
+export interface TMDBCredits {
+    cast: Array<{
+        id: number;
+        name: string;
+        character: string;
+        profile_path: string;
+        order?: number;
+    }>;
+    crew: Array<{
+        id: number;
+        name: string;
+        job: string;
+        profile_path: string;
+    }>;
+}
+
 export interface TMDBTVShow {
     id: number;
     name: string;
@@ -88,6 +117,8 @@ interface TMDBMovieDetailsResponse {
     revenue: number;
     homepage: string;
     imdb_id: string;
+    original_language?: string;
+    production_countries?: { iso_3166_1: string; name: string }[];
     videos?: {
         results: Array<{
             id: string;
@@ -138,6 +169,9 @@ interface TMDBTVDetailsResponse {
     genres: { id: number; name: string }[];
     status: string;
     homepage: string;
+    original_language?: string;
+    origin_country?: string[];
+    created_by?: Array<{ id: number; name: string }>;
     videos?: {
         results: Array<{
             id: string;
@@ -219,8 +253,69 @@ interface TMDBTrendingResponse {
     total_results: number;
 }
 
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// How long each kind of TMDB response stays fresh
+const CACHE_TTL = {
+    search: 1 * HOUR,
+    trending: 3 * HOUR,
+    popular: 6 * HOUR,
+    details: 3 * DAY,
+    genres: 7 * DAY,
+    seasons: 1 * DAY,
+    related: 1 * DAY,
+    keywords: 7 * DAY,
+};
+
+// A season is cached until its next episode airs, so new air dates/titles show up
+const seasonTTL = (season: any): number => {
+    const now = Date.now();
+    const upcoming = (season?.episodes || [])
+        .map((episode: any) => (episode.air_date ? new Date(episode.air_date).getTime() : NaN))
+        .filter((time: number) => !isNaN(time) && time > now);
+    const hasUndatedEpisodes = (season?.episodes || []).some((episode: any) => !episode.air_date);
+
+    if (upcoming.length > 0) {
+        return Math.max(Math.min(...upcoming) - now, HOUR);
+    }
+
+    // Announced seasons without dates change often
+    if (hasUndatedEpisodes || (season?.episodes || []).length === 0) {
+        return 6 * HOUR;
+    }
+
+    return 30 * DAY;
+};
+
+const MAX_RETRIES = 3;
+const MAX_RETRY_WAIT_MS = 10000; // Don't hold a request open longer than this for Retry-After
+
+// 429, 5xx and network errors/timeouts are worth retrying; other 4xx are not
+const isRetryable = (error: any): boolean => {
+    const status = error?.response?.status;
+    if (!status) return true;
+    return status === 429 || status >= 500;
+};
+
+export interface TMDBCacheStats {
+    store: string;
+    hits: number;
+    misses: number;
+    stale: number;
+    hitRate: number;
+    byEndpoint: Record<string, { hits: number; misses: number; stale: number }>;
+    circuit: { state: CircuitState; consecutiveFailures: number };
+    queuedRequests: number;
+}
+
 class TMDBService {
     private axiosInstance;
+    private cache: CacheStore;
+    private inFlight = new Map<string, Promise<any>>();
+    private cacheCounters: Record<string, { hits: number; misses: number; stale: number }> = {};
+    private limiter = new Semaphore(Number(process.env.TMDB_MAX_CONCURRENCY) || 8);
+    private breaker = new CircuitBreaker('TMDB', 5, 30000);
 
     constructor() {
         if (!TMDB_API_KEY) {
@@ -229,313 +324,580 @@ class TMDBService {
 
         this.axiosInstance = axios.create({
             baseURL: TMDB_BASE_URL,
+            timeout: 10000,
             params: {
                 api_key: TMDB_API_KEY,
                 language: 'en-US',
             },
         });
-    }
 
-    // Search movies and TV shows
-    async search(query: string, page: number = 1): Promise<TMDBResponse> {
-        try {
-            const response = await this.axiosInstance.get<TMDBMultiSearchResponse>('/search/multi', {
-                params: { query, page },
-            });
+        this.cache = createCacheStore();
+    }
 
-            // Filter out items without media_type
-            const filteredResults = response.data.results.filter((item) =>
-                item.media_type === 'movie' || item.media_type === 'tv'
-            );
+    // Every outbound TMDB call goes through here: concurrency cap, retries with
+    // jittered backoff (honoring Retry-After) and the circuit breaker
+    private async request<T>(url: string, config?: { params?: Record<string, any> }): Promise<{ data: T }> {
+        if (!this.breaker.allowRequest()) {
+            throw new UpstreamUnavailable('TMDB', 'TMDB is temporarily unavailable', this.breaker.retryAfterMs);
+        }
 
-            // Transform to our internal format
-            const results = filteredResults.map((item) => {
-                if (item.media_type === 'movie') {
-                    return {
-                        id: item.id,
-                        title: item.title || 'Unknown Movie',
-                        overview: item.overview,
-                        poster_path: item.poster_path,
-                        backdrop_path: item.backdrop_path,
-                        release_date: item.release_date || '',
-                        vote_average: item.vote_average,
-                        vote_count: item.vote_count,
-                        genre_ids: item.genre_ids,
-                        media_type: 'movie' as const,
-                    };
-                } else {
-                    return {
-                        id: item.id,
-                        name: item.name || 'Unknown TV Show',
-                        overview: item.overview,
-                        poster_path: item.poster_path,
-                        backdrop_path: item.backdrop_path,
-                        first_air_date: item.first_air_date || '',
-                        vote_average: item.vote_average,
-                        vote_count: item.vote_count,
-                        genre_ids: item.genre_ids,
-                        media_type: 'tv' as const,
-                    };
+        let lastError: any;
+
+        for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+            try {
+                const response = await this.limiter.run(async () => this.axiosInstance.get<T>(url, config));
+                this.breaker.recordSuccess();
+                return response;
+            } catch (error: any) {
+                if (!isRetryable(error)) {
+                    // TMDB answered (e.g. 404), so it is healthy
+                    this.breaker.recordSuccess();
+                    throw error;
                 }
-            });
-
-            return {
-                page: response.data.page,
-                results: results,
-                total_pages: response.data.total_pages,
-                total_results: response.data.total_results,
-            };
-        } catch (error: any) {
-            console.error('TMDB Search Error:', error.message);
-            throw new Error(`Failed to search TMDB: ${error.message}`);
+
+                lastError = error;
+                if (attempt === MAX_RETRIES) break;
+
+                const delay = parseRetryAfter(error.response?.headers?.['retry-after']) ?? backoffDelay(attempt);
+                if (delay > MAX_RETRY_WAIT_MS) break;
+
+                console.warn(`TMDB ${error.response?.status || error.code} on ${url}, retry ${attempt + 1} in ${delay}ms`);
+                await sleep(delay);
+            }
         }
+
+        this.breaker.recordFailure();
+        throw new UpstreamUnavailable(
+            'TMDB',
+            `TMDB is temporarily unavailable: ${lastError?.message}`,
+            parseRetryAfter(lastError?.response?.headers?.['retry-after']) ?? undefined
+        );
     }
 
-    // Get movie details
-    async getMovieDetails(movieId: number): Promise<TMDBMovieDetails> {
+    // Serves from the cache store when fresh, otherwise fetches once (concurrent callers share the request).
+    // If TMDB is unavailable, an expired entry is served instead of failing.
+    private async cached<T>(
+        endpoint: string,
+        key: string,
+        ttl: number | ((value: T) => number),
+        fetcher: () => Promise<T>
+    ): Promise<T> {
+        const cacheKey = `tmdb:${endpoint}:${key}`;
+        const counters = this.cacheCounters[endpoint] || (this.cacheCounters[endpoint] = { hits: 0, misses: 0, stale: 0 });
+
+        let staleEntry: CacheEntry<T> | null = null;
         try {
-            const response = await this.axiosInstance.get<TMDBMovieDetailsResponse>(`/movie/${movieId}`, {
-                params: {
-                    append_to_response: 'videos,credits,similar',
-                },
-            });
-
-            const data = response.data;
-
-            return {
-                id: data.id,
-                title: data.title,
-                overview: data.overview,
-                poster_path: data.poster_path,
-                backdrop_path: data.backdrop_path,
-                release_date: data.release_date,
-                vote_average: data.vote_average,
-                vote_count: data.vote_count,
-                genre_ids: data.genres.map(g => g.id),
-                runtime: data.runtime || 120,
-                genres: data.genres || [],
-                tagline: data.tagline || '',
-                status: data.status || 'Released',
-                budget: data.budget || 0,
-                revenue: data.revenue || 0,
-                homepage: data.homepage || '',
-                imdb_id: data.imdb_id || '',
-                media_type: 'movie' as const,
-            };
+            const entry = await this.cache.get<T>(cacheKey);
+            if (entry && entry.expiresAt > Date.now()) {
+                counters.hits++;
+                return entry.value;
+            }
+            staleEntry = entry;
         } catch (error: any) {
-            console.error('TMDB Movie Details Error:', error.message);
-            throw new Error(`Failed to fetch movie details: ${error.message}`);
+            console.error('TMDB Cache Read Error:', error.message);
+        }
+
+        counters.misses++;
+
+        let pending = this.inFlight.get(cacheKey) as Promise<T> | undefined;
+        if (!pending) {
+            pending = (async () => {
+                const value = await fetcher();
+                const ttlMs = typeof ttl === 'function' ? ttl(value) : ttl;
+
+                try {
+                    await this.cache.set(cacheKey, { value, expiresAt: Date.now() + ttlMs });
+                } catch (error: any) {
+                    console.error('TMDB Cache Write Error:', error.message);
+                }
+
+                return value;
+            })();
+
+            this.inFlight.set(cacheKey, pending);
+            pending.then(
+                () => this.inFlight.delete(cacheKey),
+                () => this.inFlight.delete(cacheKey)
+            );
+        }
+
+        try {
+            return await pending;
+        } catch (error) {
+            if (error instanceof UpstreamUnavailable && staleEntry) {
+                counters.stale++;
+                console.warn(`⚠️ Serving stale TMDB data for ${cacheKey}`);
+                return staleEntry.value;
+            }
+            throw error;
         }
     }
 
-    // Get TV show details
-    async getTVDetails(tvId: number): Promise<any> {
+    // Reads a cached response without ever calling TMDB (null when not cached)
+    async peek<T = any>(endpoint: string, key: string): Promise<T | null> {
         try {
-            const response = await this.axiosInstance.get<TMDBTVDetailsResponse>(`/tv/${tvId}`, {
-                params: {
-                    append_to_response: 'videos,credits,similar',
-                },
-            });
-
-            const data = response.data;
-
-            return {
-                id: data.id,
-                name: data.name,
-                title: data.name, // Add title alias for consistency
-                overview: data.overview,
-                poster_path: data.poster_path,
-                backdrop_path: data.backdrop_path,
-                first_air_date: data.first_air_date,
-                release_date: data.first_air_date, // Add release_date alias
-                vote_average: data.vote_average,
-                vote_count: data.vote_count,
-                genre_ids: data.genres.map(g => g.id),
-                genres: data.genres || [],
-                runtime: 45,
-                media_type: 'tv' as const,
-                number_of_seasons: data.number_of_seasons || 1,
-                number_of_episodes: data.number_of_episodes || 1,
-                episode_run_time: data.episode_run_time || [45],
-                status: data.status || 'Ended',
-                homepage: data.homepage || '',
-                videos: data.videos,
-                credits: data.credits,
-                similar: data.similar,
-                seasons: data.seasons,
-            };
-        } catch (error: any) {
-            console.error('TMDB TV Details Error:', error.message);
-            throw new Error(`Failed to fetch TV details: ${error.message}`);
+            const entry = await this.cache.get<T>(`tmdb:${endpoint}:${key}`);
+            return entry ? entry.value : null;
+        } catch {
+            return null;
         }
     }
 
-    // Get popular movies
-    async getPopularMovies(page: number = 1): Promise<TMDBResponse> {
+    // Drops a cached response so the next call goes to TMDB
+    async invalidate(endpoint: string, key: string): Promise<void> {
         try {
-            const response = await this.axiosInstance.get<TMDBPopularMoviesResponse>('/movie/popular', {
-                params: { page },
-            });
-
-            const resultsWithType = response.data.results.map((item) => ({
-                id: item.id,
-                title: item.title,
-                overview: item.overview,
-                poster_path: item.poster_path,
-                backdrop_path: item.backdrop_path,
-                release_date: item.release_date,
-                vote_average: item.vote_average,
-                vote_count: item.vote_count,
-                genre_ids: item.genre_ids,
-                media_type: 'movie' as const
-            }));
-
-            return {
-                page: response.data.page,
-                results: resultsWithType,
-                total_pages: response.data.total_pages,
-                total_results: response.data.total_results,
-            };
+            await this.cache.delete(`tmdb:${endpoint}:${key}`);
         } catch (error: any) {
-            console.error('TMDB Popular Movies Error:', error.message);
-            throw new Error(`Failed to fetch popular movies: ${error.message}`);
+            console.error('TMDB Cache Delete Error:', error.message);
         }
     }
 
-    // Get trending content
-    async getTrending(timeWindow: 'day' | 'week' = 'week', page: number = 1): Promise<TMDBResponse> {
-        try {
-            const response = await this.axiosInstance.get<TMDBTrendingResponse>(`/trending/all/${timeWindow}`, {
-                params: { page },
-            });
+    getCacheStats(): TMDBCacheStats {
+        const byEndpoint = { ...this.cacheCounters };
+        const hits = Object.values(byEndpoint).reduce((sum, c) => sum + c.hits, 0);
+        const misses = Object.values(byEndpoint).reduce((sum, c) => sum + c.misses, 0);
+        const stale = Object.values(byEndpoint).reduce((sum, c) => sum + c.stale, 0);
+
+        return {
+            store: this.cache.name,
+            hits,
+            misses,
+            stale,
+            hitRate: hits + misses > 0 ? Number((hits / (hits + misses)).toFixed(3)) : 0,
+            byEndpoint,
+            circuit: this.breaker.status,
+            queuedRequests: this.limiter.pending,
+        };
+    }
+
+    async clearCache(): Promise<void> {
+        await this.cache.clear();
+        this.cacheCounters = {};
+    }
+
+    // Search movies and TV shows
+    async search(query: string, page: number = 1): Promise<TMDBResponse> {
+        return this.cached('search', `${query.trim().toLowerCase()}:${page}`, CACHE_TTL.search, async () => {
+            try {
+                const response = await this.request<TMDBMultiSearchResponse>('/search/multi', {
+                    params: { query, page },
+                });
 
-            const filteredResults = response.data.results
-                .filter((item) => item.media_type === 'movie' || item.media_type === 'tv')
-                .map((item) => {
+                // Filter out items without media_type
+                const filteredResults = response.data.results.filter((item) =>
+                    item.media_type === 'movie' || item.media_type === 'tv'
+                );
+
+                // Transform to our internal format
+                const results = filteredResults.map((item) => {
                     if (item.media_type === 'movie') {
                         return {
                             id: item.id,
-                            title: item.title || item.name || 'Unknown Movie',
+                            title: item.title || 'Unknown Movie',
                             overview: item.overview,
                             poster_path: item.poster_path,
                             backdrop_path: item.backdrop_path,
-                            release_date: item.release_date || item.first_air_date || '',
+                            release_date: item.release_date || '',
                             vote_average: item.vote_average,
                             vote_count: item.vote_count,
-                            genre_ids: item.genre_ids || [],
+                            genre_ids: item.genre_ids,
                             media_type: 'movie' as const,
                         };
                     } else {
                         return {
                             id: item.id,
-                            name: item.name || item.title || 'Unknown TV Show',
-                            title: item.name || item.title || 'Unknown TV Show', // Add title alias
+                            name: item.name || 'Unknown TV Show',
                             overview: item.overview,
                             poster_path: item.poster_path,
                             backdrop_path: item.backdrop_path,
-                            first_air_date: item.first_air_date || item.release_date || '',
-                            release_date: item.first_air_date || item.release_date || '', // Add release_date alias
+                            first_air_date: item.first_air_date || '',
                             vote_average: item.vote_average,
                             vote_count: item.vote_count,
-                            genre_ids: item.genre_ids || [],
+                            genre_ids: item.genre_ids,
                             media_type: 'tv' as const,
                         };
                     }
                 });
 
-            return {
-                page: response.data.page,
-                results: filteredResults,
-                total_pages: response.data.total_pages,
-                total_results: response.data.total_results,
-            };
-        } catch (error: any) {
-            console.error('TMDB Trending Error:', error.message);
-            throw new Error(`Failed to fetch trending content: ${error.message}`);
-        }
+                return {
+                    page: response.data.page,
+                    results: results,
+                    total_pages: response.data.total_pages,
+                    total_results: response.data.total_results,
+                };
+            } catch (error: any) {
+                if (error instanceof UpstreamUnavailable) throw error;
+                console.error('TMDB Search Error:', error.message);
+                throw new Error(`Failed to search TMDB: ${error.message}`);
+            }
+        });
+    }
+
+    // Get movie details
+    async getMovieDetails(movieId: number): Promise<TMDBMovieDetails> {
+        return this.cached('movie', `${movieId}`, CACHE_TTL.details, async () => {
+            try {
+                const response = await this.request<TMDBMovieDetailsResponse>(`/movie/${movieId}`, {
+                    params: {
+                        append_to_response: 'videos,credits,similar',
+                    },
+                });
+
+                const data = response.data;
+
+                return {
+                    id: data.id,
+                    title: data.title,
+                    overview: data.overview,
+                    poster_path: data.poster_path,
+                    backdrop_path: data.backdrop_path,
+                    release_date: data.release_date,
+                    vote_average: data.vote_average,
+                    vote_count: data.vote_count,
+                    genre_ids: data.genres.map(g => g.id),
+                    runtime: data.runtime || 120,
+                    genres: data.genres || [],
+                    tagline: data.tagline || '',
+                    status: data.status || 'Released',
+                    budget: data.budget || 0,
+                    revenue: data.revenue || 0,
+                    homepage: data.homepage || '',
+                    imdb_id: data.imdb_id || '',
+                    original_language: data.original_language || '',
+                    production_countries: data.production_countries || [],
+                    credits: data.credits,
+                    media_type: 'movie' as const,
+                };
+            } catch (error: any) {
+                if (error instanceof UpstreamUnavailable) throw error;
+                console.error('TMDB Movie Details Error:', error.message);
+                throw new Error(`Failed to fetch movie details: ${error.message}`);
+            }
+        });
+    }
+
+    // Get TV show details
+    async getTVDetails(tvId: number): Promise<any> {
+        return this.cached('tv', `${tvId}`, CACHE_TTL.details, async () => {
+            try {
+                const response = await this.request<TMDBTVDetailsResponse>(`/tv/${tvId}`, {
+                    params: {
+                        append_to_response: 'videos,credits,similar',
+                    },
+                });
+
+                const data = response.data;
+
+                return {
+                    id: data.id,
+                    name: data.name,
+                    title: data.name, // Add title alias for consistency
+                    overview: data.overview,
+                    poster_path: data.poster_path,
+                    backdrop_path: data.backdrop_path,
+                    first_air_date: data.first_air_date,
+                    release_date: data.first_air_date, // Add release_date alias
+                    vote_average: data.vote_average,
+                    vote_count: data.vote_count,
+                    genre_ids: data.genres.map(g => g.id),
+                    genres: data.genres || [],
+                    runtime: 45,
+                    media_type: 'tv' as const,
+                    number_of_seasons: data.number_of_seasons || 1,
+                    number_of_episodes: data.number_of_episodes || 1,
+                    episode_run_time: data.episode_run_time || [45],
+                    status: data.status || 'Ended',
+                    homepage: data.homepage || '',
+                    original_language: data.original_language || '',
+                    origin_country: data.origin_country || [],
+                    created_by: data.created_by || [],
+                    videos: data.videos,
+                    credits: data.credits,
+                    similar: data.similar,
+                    seasons: data.seasons,
+                };
+            } catch (error: any) {
+                if (error instanceof UpstreamUnavailable) throw error;
+                console.error('TMDB TV Details Error:', error.message);
+                throw new Error(`Failed to fetch TV details: ${error.message}`);
+            }
+        });
+    }
+
+    // Get popular movies
+    async getPopularMovies(page: number = 1): Promise<TMDBResponse> {
+        return this.cached('popular', `${page}`, CACHE_TTL.popular, async () => {
+            try {
+                const response = await this.request<TMDBPopularMoviesResponse>('/movie/popular', {
+                    params: { page },
+                });
+
+                const resultsWithType = response.data.results.map((item) => ({
+                    id: item.id,
+                    title: item.title,
+                    overview: item.overview,
+                    poster_path: item.poster_path,
+                    backdrop_path: item.backdrop_path,
+                    release_date: item.release_date,
+                    vote_average: item.vote_average,
+                    vote_count: item.vote_count,
+                    genre_ids: item.genre_ids,
+                    media_type: 'movie' as const
+                }));
+
+                return {
+                    page: response.data.page,
+                    results: resultsWithType,
+                    total_pages: response.data.total_pages,
+                    total_results: response.data.total_results,
+                };
+            } catch (error: any) {
+                if (error instanceof UpstreamUnavailable) throw error;
+                console.error('TMDB Popular Movies Error:', error.message);
+                throw new Error(`Failed to fetch popular movies: ${error.message}`);
+            }
+        });
+    }
+
+    // Get trending content
+    async getTrending(timeWindow: 'day' | 'week' = 'week', page: number = 1): Promise<TMDBResponse> {
+        return this.cached('trending', `${timeWindow}:${page}`, CACHE_TTL.trending, async () => {
+            try {
+                const response = await this.request<TMDBTrendingResponse>(`/trending/all/${timeWindow}`, {
+                    params: { page },
+                });
+
+                const filteredResults = response.data.results
+                    .filter((item) => item.media_type === 'movie' || item.media_type === 'tv')
+                    .map((item) => {
+                        if (item.media_type === 'movie') {
+                            return {
+                                id: item.id,
+                                title: item.title || item.name || 'Unknown Movie',
+                                overview: item.overview,
+                                poster_path: item.poster_path,
+                                backdrop_path: item.backdrop_path,
+                                release_date: item.release_date || item.first_air_date || '',
+                                vote_average: item.vote_average,
+                                vote_count: item.vote_count,
+                                genre_ids: item.genre_ids || [],
+                                media_type: 'movie' as const,
+                            };
+                        } else {
+                            return {
+                                id: item.id,
+                                name: item.name || item.title || 'Unknown TV Show',
+                                title: item.name || item.title || 'Unknown TV Show', // Add title alias
+                                overview: item.overview,
+                                poster_path: item.poster_path,
+                                backdrop_path: item.backdrop_path,
+                                first_air_date: item.first_air_date || item.release_date || '',
+                                release_date: item.first_air_date || item.release_date || '', // Add release_date alias
+                                vote_average: item.vote_average,
+                                vote_count: item.vote_count,
+                                genre_ids: item.genre_ids || [],
+                                media_type: 'tv' as const,
+                            };
+                        }
+                    });
+
+                return {
+                    page: response.data.page,
+                    results: filteredResults,
+                    total_pages: response.data.total_pages,
+                    total_results: response.data.total_results,
+                };
+            } catch (error: any) {
+                if (error instanceof UpstreamUnavailable) throw error;
+                console.error('TMDB Trending Error:', error.message);
+                throw new Error(`Failed to fetch trending content: ${error.message}`);
+            }
+        });
     }
 
     // Get movie genres
     async getMovieGenres(): Promise<{ id: number; name: string }[]> {
-        try {
-            const response = await this.axiosInstance.get<{ genres: { id: number; name: string }[] }>('/genre/movie/list');
-            return response.data.genres || [];
-        } catch (error: any) {
-            console.error('TMDB Genres Error:', error.message);
-            throw new Error(`Failed to fetch genres: ${error.message}`);
-        }
+        return this.cached('genres', 'movie', CACHE_TTL.genres, async () => {
+            try {
+                const response = await this.request<{ genres: { id: number; name: string }[] }>('/genre/movie/list');
+                return response.data.genres || [];
+            } catch (error: any) {
+                if (error instanceof UpstreamUnavailable) throw error;
+                console.error('TMDB Genres Error:', error.message);
+                throw new Error(`Failed to fetch genres: ${error.message}`);
+            }
+        });
     }
 
-    // Get TV season details
-    async getTVSeasonDetails(tvId: number, seasonNumber: number): Promise<any> {
-        try {
-            const response = await this.axiosInstance.get<any>(`/tv/${tvId}/season/${seasonNumber}`);
-            return response.data;
-        } catch (error: any) {
-            console.error("TMDB Season Details Error:", error.message);
+    // Get TV genres
+    async getTVGenres(): Promise<{ id: number; name: string }[]> {
+        return this.cached('genres', 'tv', CACHE_TTL.genres, async () => {
+            try {
+                const response = await this.request<{ genres: { id: number; name: string }[] }>('/genre/tv/list');
+                return response.data.genres || [];
+            } catch (error: any) {
+                if (error instanceof UpstreamUnavailable) throw error;
+                console.error('TMDB TV Genres Error:', error.message);
+                throw new Error(`Failed to fetch TV genres: ${error.message}`);
+            }
+        });
+    }
+
+    // Get titles related to a movie/TV show: TMDB's own recommendations or genre/keyword "similar" titles
+    async getRelated(
+        type: 'movie' | 'tv',
+        tmdbId: number,
+        kind: 'recommendations' | 'similar',
+        page: number = 1
+    ): Promise<TMDBResponse> {
+        return this.cached(kind, `${type}:${tmdbId}:${page}`, CACHE_TTL.related, async () => {
+            try {
+                const response = await this.request<TMDBTrendingResponse>(`/${type}/${tmdbId}/${kind}`, {
+                    params: { page },
+                });
+
+                const results = response.data.results.map((item) => {
+                    if (type === 'movie') {
+                        return {
+                            id: item.id,
+                            title: item.title || item.name || 'Unknown Movie',
+                            overview: item.overview,
+                            poster_path: item.poster_path,
+                            backdrop_path: item.backdrop_path,
+                            release_date: item.release_date || '',
+                            vote_average: item.vote_average,
+                            vote_count: item.vote_count,
+                            genre_ids: item.genre_ids || [],
+                            media_type: 'movie' as const,
+                        };
+                    }
+
+                    return {
+                        id: item.id,
+                        name: item.name || item.title || 'Unknown TV Show',
+                        title: item.name || item.title || 'Unknown TV Show', // Add title alias
+                        overview: item.overview,
+                        poster_path: item.poster_path,
+                        backdrop_path: item.backdrop_path,
+                        first_air_date: item.first_air_date || '',
+                        release_date: item.first_air_date || '', // Add release_date alias
+                        vote_average: item.vote_average,
+                        vote_count: item.vote_count,
+                        genre_ids: item.genre_ids || [],
+                        media_type: 'tv' as const,
+                    };
+                });
 
-            // Return empty episode data if season doesn't exist
-            if (error.response?.status === 404) {
                 return {
-                    episodes: [],
-                    season_number: seasonNumber,
-                    name: `Season ${seasonNumber}`,
-                    overview: '',
-                    air_date: ''
+                    page: response.data.page,
+                    results,
+                    total_pages: response.data.total_pages,
+                    total_results: response.data.total_results,
                 };
+            } catch (error: any) {
+                if (error instanceof UpstreamUnavailable) throw error;
+                console.error(`TMDB ${kind} Error:`, error.message);
+                throw new Error(`Failed to fetch ${kind}: ${error.message}`);
+            }
+        });
+    }
+
+    // Get keywords of a movie/TV show (movies return `keywords`, TV shows `results`)
+    async getKeywords(type: 'movie' | 'tv', tmdbId: number): Promise<{ id: number; name: string }[]> {
+        return this.cached('keywords', `${type}:${tmdbId}`, CACHE_TTL.keywords, async () => {
+            try {
+                const response = await this.request<{
+                    keywords?: { id: number; name: string }[];
+                    results?: { id: number; name: string }[];
+                }>(`/${type}/${tmdbId}/keywords`);
+                return response.data.keywords || response.data.results || [];
+            } catch (error: any) {
+                if (error instanceof UpstreamUnavailable) throw error;
+                console.error('TMDB Keywords Error:', error.message);
+                throw new Error(`Failed to fetch keywords: ${error.message}`);
             }
+        });
+    }
 
-            throw new Error(`Failed to fetch season ${seasonNumber} details: ${error.message}`);
-        }
+    // Get TV season details
+    async getTVSeasonDetails(tvId: number, seasonNumber: number): Promise<any> {
+        return this.cached('season', `${tvId}:${seasonNumber}`, seasonTTL, async () => {
+            try {
+                const response = await this.request<any>(`/tv/${tvId}/season/${seasonNumber}`);
+                return response.data;
+            } catch (error: any) {
+                if (error instanceof UpstreamUnavailable) throw error;
+                console.error("TMDB Season Details Error:", error.message);
+
+                // Return empty episode data if season doesn't exist
+                if (error.response?.status === 404) {
+                    return {
+                        episodes: [],
+                        season_number: seasonNumber,
+                        name: `Season ${seasonNumber}`,
+                        overview: '',
+                        air_date: ''
+                    };
+                }
+
+                throw new Error(`Failed to fetch season ${seasonNumber} details: ${error.message}`);
+            }
+        });
     }
 
     // Get all TV show seasons
     async getTVSeasons(tvId: number): Promise<any> {
-        try {
-            const response = await this.axiosInstance.get<any>(`/tv/${tvId}`);
-            return {
-                seasons: response.data.seasons,
-                totalSeasons: response.data.number_of_seasons,
-                totalEpisodes: response.data.number_of_episodes
-            };
-        } catch (error) {
-            console.error("TMDB Seasons Error:", error);
-            throw new Error("Failed to fetch TV seasons");
-        }
+        return this.cached('seasons', `${tvId}`, CACHE_TTL.seasons, async () => {
+            try {
+                const response = await this.request<any>(`/tv/${tvId}`);
+                return {
+                    seasons: response.data.seasons,
+                    totalSeasons: response.data.number_of_seasons,
+                    totalEpisodes: response.data.number_of_episodes
+                };
+            } catch (error) {
+                if (error instanceof UpstreamUnavailable) throw error;
+                console.error("TMDB Seasons Error:", error);
+                throw new Error("Failed to fetch TV seasons");
+            }
+        });
     }
 
     // Search TV shows only
     async searchTVShows(query: string, page: number = 1): Promise<TMDBResponse> {
-        try {
-            const response = await this.axiosInstance.get<TMDBMultiSearchResponse>("/search/tv", {
-                params: { query, page },
-            });
-
-            const results = response.data.results.map((item) => ({
-                id: item.id,
-                name: item.name || 'Unknown TV Show',
-                title: item.name || 'Unknown TV Show', // Add title alias
-                overview: item.overview,
-                poster_path: item.poster_path,
-                backdrop_path: item.backdrop_path,
-                first_air_date: item.first_air_date || '',
-                release_date: item.first_air_date || '', // Add release_date alias
-                vote_average: item.vote_average,
-                vote_count: item.vote_count,
-                genre_ids: item.genre_ids || [],
-                media_type: 'tv' as const,
-            }));
-
-            return {
-                page: response.data.page,
-                results: results,
-                total_pages: response.data.total_pages,
-                total_results: response.data.total_results,
-            };
-        } catch (error) {
-            console.error("TMDB TV Search Error:", error);
-            throw new Error("Failed to search TV shows");
-        }
+        return this.cached('search-tv', `${query.trim().toLowerCase()}:${page}`, CACHE_TTL.search, async () => {
+            try {
+                const response = await this.request<TMDBMultiSearchResponse>("/search/tv", {
+                    params: { query, page },
+                });
+
+                const results = response.data.results.map((item) => ({
+                    id: item.id,
+                    name: item.name || 'Unknown TV Show',
+                    title: item.name || 'Unknown TV Show', // Add title alias
+                    overview: item.overview,
+                    poster_path: item.poster_path,
+                    backdrop_path: item.backdrop_path,
+                    first_air_date: item.first_air_date || '',
+                    release_date: item.first_air_date || '', // Add release_date alias
+                    vote_average: item.vote_average,
+                    vote_count: item.vote_count,
+                    genre_ids: item.genre_ids || [],
+                    media_type: 'tv' as const,
+                }));
+
+                return {
+                    page: response.data.page,
+                    results: results,
+                    total_pages: response.data.total_pages,
+                    total_results: response.data.total_results,
+                };
+            } catch (error) {
+                if (error instanceof UpstreamUnavailable) throw error;
+                console.error("TMDB TV Search Error:", error);
+                throw new Error("Failed to search TV shows");
+            }
+        });
     }
 
     // Get image URL helper
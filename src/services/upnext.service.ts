@@ -0,0 +1,129 @@
+import { IMedia, Media } from '../models/Media';
+import {
+    countsTowardProgress,
+    findTrackedEpisodes,
+    todayAirDate,
+    TrackedEpisode,
+} from './episode.service';
+
+// What to watch next: the next episode of each show in progress, and an
+// "on deck" list that mixes those with movies still waiting to be watched.
+
+const MAX_ON_DECK_LIMIT = 50;
+
+export interface UpNextMedia {
+    id: string;
+    tmdbId: number;
+    title: string;
+    type: 'movie' | 'tv';
+    posterPath?: string;
+    backdrop_path?: string;
+    runtime?: number;
+}
+
+export interface UpNextShow {
+    media: UpNextMedia;
+    // Earliest aired episode still unwatched; null when the user is caught up
+    // or the show's episodes haven't been fetched yet
+    nextEpisode: TrackedEpisode | null;
+    // Counted the way updateTVShowStats counts them: aired episodes plus any the user touched
+    progress: { watched: number; total: number };
+    lastWatchedAt: Date | null;
+}
+
+export type OnDeckItem =
+    | ({ kind: 'episode' } & UpNextShow)
+    | { kind: 'movie'; media: UpNextMedia; addedAt: Date | null };
+
+type MediaRow = Pick<IMedia, '_id' | 'tmdbId' | 'title' | 'type' | 'posterPath' | 'backdrop_path' | 'runtime'
+    | 'createdAt' | 'updatedAt'>;
+
+const toUpNextMedia = (media: MediaRow): UpNextMedia => ({
+    id: media._id.toString(),
+    tmdbId: media.tmdbId,
+    title: media.title,
+    type: media.type,
+    posterPath: media.posterPath || undefined,
+    backdrop_path: media.backdrop_path || undefined,
+    runtime: media.runtime,
+});
+
+const MEDIA_FIELDS = 'tmdbId title type posterPath backdrop_path runtime createdAt updatedAt';
+
+// Shows with when the user was last active on them: the last watched episode,
+// or the last status change for shows without one
+const loadUpNext = async (userId: string): Promise<{ at: number; show: UpNextShow }[]> => {
+    const shows = await Media.find({ addedBy: userId, type: 'tv', watchStatus: 'watching' })
+        .select(MEDIA_FIELDS)
+        .lean();
+
+    if (shows.length === 0) return [];
+
+    const episodes = await findTrackedEpisodes(userId, { tmdbIds: shows.map((show) => show.tmdbId) });
+
+    const byShow = new Map<number, TrackedEpisode[]>();
+    for (const episode of episodes) {
+        const list = byShow.get(episode.tmdbId) || [];
+        list.push(episode);
+        byShow.set(episode.tmdbId, list);
+    }
+
+    const today = todayAirDate();
+
+    return shows
+        .map((show) => {
+            // Episodes come sorted by season and episode number
+            const counted = (byShow.get(show.tmdbId) || []).filter((e) => countsTowardProgress(e, today));
+
+            const next = counted.find((e) => e.watchStatus === 'unwatched');
+            const lastWatched = counted.reduce((latest, e) => Math.max(latest, e.watchedAt?.getTime() || 0), 0);
+
+            return {
+                at: lastWatched || show.updatedAt?.getTime() || 0,
+                show: {
+                    media: toUpNextMedia(show),
+                    nextEpisode: next || null,
+                    progress: {
+                        watched: counted.filter((e) => e.watchStatus !== 'unwatched').length,
+                        total: counted.length,
+                    },
+                    lastWatchedAt: lastWatched ? new Date(lastWatched) : null,
+                },
+            };
+        })
+        .sort((a, b) => b.at - a.at);
+};
+
+// Every show the user is watching, most recently watched first
+export const getUpNext = async (userId: string): Promise<UpNextShow[]> =>
+    (await loadUpNext(userId)).map(({ show }) => show);
+
+// Shows with an episode ready to watch and planned movies, ordered by when the
+// user last touched them; a movie goes by when it was added
+export const getOnDeck = async (userId: string, options: { limit?: number } = {}): Promise<OnDeckItem[]> => {
+    const limit = Math.min(Math.max(options.limit || 20, 1), MAX_ON_DECK_LIMIT);
+
+    const [shows, movies] = await Promise.all([
+        loadUpNext(userId),
+        Media.find({ addedBy: userId, type: 'movie', watchStatus: 'planned' })
+            .sort({ createdAt: -1 })
+            .limit(limit)
+            .select(MEDIA_FIELDS)
+            .lean(),
+    ]);
+
+    const items: { at: number; item: OnDeckItem }[] = [
+        ...shows
+            .filter(({ show }) => show.nextEpisode)
+            .map(({ at, show }) => ({ at, item: { kind: 'episode' as const, ...show } })),
+        ...movies.map((movie) => ({
+            at: movie.createdAt?.getTime() || 0,
+            item: { kind: 'movie' as const, media: toUpNextMedia(movie), addedAt: movie.createdAt || null },
+        })),
+    ];
+
+    return items
+        .sort((a, b) => b.at - a.at)
+        .slice(0, limit)
+        .map(({ item }) => item);
+};
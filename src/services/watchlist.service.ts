@@ -0,0 +1,229 @@
+import mongoose from 'mongoose';
+import { Media } from '../models/Media';
+import { escapeRegex } from '../utils/regex';
+
+// Filtering, sorting, text search and cursor pagination for a user's watchlist
+
+export class WatchlistQueryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WatchlistQueryError';
+    }
+}
+
+export const WATCHLIST_SORT_KEYS = ['added', 'updated', 'rating', 'releaseDate', 'title', 'vote_average', 'progress', 'relevance'] as const;
+export type WatchlistSortKey = typeof WATCHLIST_SORT_KEYS[number];
+
+const WATCH_STATUSES = ['planned', 'watching', 'completed'];
+const MAX_LIMIT = 100;
+
+// Expression each sort key orders by. Missing values get a default so the
+// cursor comparison never has to reason about null vs. missing.
+const SORT_EXPRESSIONS: Record<WatchlistSortKey, any> = {
+    added: '$createdAt',
+    updated: '$updatedAt',
+    rating: { $ifNull: ['$rating', 0] },
+    releaseDate: { $ifNull: ['$releaseDate', ''] },
+    title: { $toLower: '$title' },
+    vote_average: { $ifNull: ['$vote_average', 0] },
+    // Share of episodes watched for shows; movies count as all or nothing
+    progress: {
+        $cond: [
+            { $eq: ['$type', 'tv'] },
+            { $divide: [{ $ifNull: ['$totalEpisodesWatched', 0] }, { $max: [{ $ifNull: ['$episodeCount', 1] }, 1] }] },
+            { $cond: [{ $eq: ['$watchStatus', 'completed'] }, 1, 0] },
+        ],
+    },
+    relevance: { $meta: 'textScore' },
+};
+
+const DATE_SORT_KEYS: WatchlistSortKey[] = ['added', 'updated'];
+
+interface WatchlistCursor {
+    value: any;
+    id: string;
+}
+
+// Opaque to clients: base64url JSON of the last item's sort value and _id
+export const encodeCursor = (sort: WatchlistSortKey, value: any, id: mongoose.Types.ObjectId): string =>
+    Buffer.from(JSON.stringify({
+        s: sort,
+        v: value instanceof Date ? value.toISOString() : value,
+        id: id.toString(),
+    })).toString('base64url');
+
+const decodeCursor = (cursor: string, sort: WatchlistSortKey): WatchlistCursor => {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        throw new WatchlistQueryError('Invalid cursor');
+    }
+
+    if (!parsed || parsed.s !== sort || !mongoose.Types.ObjectId.isValid(parsed.id)) {
+        throw new WatchlistQueryError('Cursor does not match this query; start again without it');
+    }
+
+    if (DATE_SORT_KEYS.includes(sort)) {
+        const date = new Date(parsed.v);
+        if (isNaN(date.getTime())) throw new WatchlistQueryError('Invalid cursor');
+        return { value: date, id: parsed.id };
+    }
+
+    return { value: parsed.v, id: parsed.id };
+};
+
+const parseNumber = (value: unknown, name: string): number | undefined => {
+    if (value === undefined || value === '') return undefined;
+    const number = Number(value);
+    if (isNaN(number)) throw new WatchlistQueryError(`${name} must be a number`);
+    return number;
+};
+
+const parseDate = (value: unknown, name: string): Date | undefined => {
+    if (value === undefined || value === '') return undefined;
+    const date = new Date(String(value));
+    if (isNaN(date.getTime())) throw new WatchlistQueryError(`${name} must be a date`);
+    return date;
+};
+
+export interface WatchlistPage {
+    items: any[];
+    total: number;
+    totalWatchTime: number;
+    limit: number;
+    page: number | null; // Null in cursor mode
+    nextCursor: string | null;
+}
+
+// `query` is the raw request query string. Offset pagination (`page`) still works,
+// but `cursor` stays stable while items are added, removed or re-rated.
+export const queryWatchlist = async (userId: string, query: Record<string, any>): Promise<WatchlistPage> => {
+    const match: any = { addedBy: new mongoose.Types.ObjectId(userId) };
+    const search = typeof query.q === 'string' ? query.q.trim() : '';
+
+    // $text has to be part of the first $match stage
+    if (search) {
+        match.$text = { $search: search };
+    }
+
+    if (query.status && WATCH_STATUSES.includes(query.status)) {
+        match.watchStatus = query.status;
+    }
+
+    if (query.type === 'movie' || query.type === 'tv') {
+        match.type = query.type;
+    }
+
+    const minRating = parseNumber(query.minRating, 'minRating');
+    const maxRating = parseNumber(query.maxRating, 'maxRating');
+    if (minRating !== undefined || maxRating !== undefined) {
+        match.rating = {
+            ...(minRating !== undefined ? { $gte: minRating } : {}),
+            ...(maxRating !== undefined ? { $lte: maxRating } : {}),
+        };
+    }
+
+    // releaseDate is stored as "YYYY-MM-DD", so year bounds compare as strings
+    const yearFrom = parseNumber(query.yearFrom, 'yearFrom');
+    const yearTo = parseNumber(query.yearTo, 'yearTo');
+    if (yearFrom !== undefined || yearTo !== undefined) {
+        match.releaseDate = {
+            $ne: '',
+            ...(yearFrom !== undefined ? { $gte: `${yearFrom}` } : {}),
+            ...(yearTo !== undefined ? { $lt: `${yearTo + 1}` } : {}),
+        };
+    }
+
+    const addedFrom = parseDate(query.addedFrom, 'addedFrom');
+    const addedTo = parseDate(query.addedTo, 'addedTo');
+    if (addedFrom || addedTo) {
+        match.createdAt = {
+            ...(addedFrom ? { $gte: addedFrom } : {}),
+            ...(addedTo ? { $lte: addedTo } : {}),
+        };
+    }
+
+    if (typeof query.genre === 'string' && query.genre.trim()) {
+        match.genres = new RegExp(`^${escapeRegex(query.genre.trim())}$`, 'i');
+    }
+
+    if (typeof query.language === 'string' && query.language.trim()) {
+        match.originalLanguage = query.language.trim().toLowerCase();
+    }
+
+    // A TMDB person ID matches exactly; anything else is a name search
+    if (typeof query.person === 'string' && query.person.trim()) {
+        const personId = Number(query.person);
+        const personMatch = Number.isInteger(personId) && personId > 0
+            ? { tmdbId: personId }
+            : { name: new RegExp(escapeRegex(query.person.trim()), 'i') };
+        match.$or = [
+            { cast: { $elemMatch: personMatch } },
+            { directors: { $elemMatch: personMatch } },
+            { creators: { $elemMatch: personMatch } },
+        ];
+    }
+
+    const requestedSort = query.sort || (search ? 'relevance' : 'added');
+    if (!WATCHLIST_SORT_KEYS.includes(requestedSort)) {
+        throw new WatchlistQueryError(`sort must be one of: ${WATCHLIST_SORT_KEYS.join(', ')}`);
+    }
+    const sort = requestedSort as WatchlistSortKey;
+    if (sort === 'relevance' && !search) {
+        throw new WatchlistQueryError('sort=relevance requires a search query (q)');
+    }
+
+    const defaultOrder = sort === 'title' ? 'asc' : 'desc';
+    const direction = (query.order || defaultOrder) === 'asc' ? 1 : -1;
+    const limit = Math.min(Math.max(parseInt(query.limit) || 20, 1), MAX_LIMIT);
+
+    const pipeline: any[] = [
+        { $match: match },
+        { $addFields: { _sortValue: SORT_EXPRESSIONS[sort] } },
+    ];
+
+    let page: number | null = null;
+    if (query.cursor) {
+        const cursor = decodeCursor(String(query.cursor), sort);
+        const id = new mongoose.Types.ObjectId(cursor.id);
+        const beyond = direction === 1 ? '$gt' : '$lt';
+        pipeline.push({
+            $match: {
+                $or: [
+                    { _sortValue: { [beyond]: cursor.value } },
+                    { _sortValue: cursor.value, _id: { [beyond]: id } },
+                ],
+            },
+        });
+    } else {
+        page = Math.max(parseInt(query.page) || 1, 1);
+    }
+
+    // _id breaks ties so every item has exactly one place in the order
+    pipeline.push({ $sort: { _sortValue: direction, _id: direction } });
+    if (page !== null) pipeline.push({ $skip: (page - 1) * limit });
+    pipeline.push({ $limit: limit + 1 });
+
+    const [rows, total, watchTime] = await Promise.all([
+        Media.aggregate(pipeline),
+        Media.countDocuments(match),
+        Media.aggregate([
+            { $match: match },
+            { $group: { _id: null, total: { $sum: '$watchTimeMinutes' } } },
+        ]),
+    ]);
+
+    const hasMore = rows.length > limit;
+    const items = rows.slice(0, limit);
+    const last = items[items.length - 1];
+
+    return {
+        items: items.map(({ _sortValue, ...item }) => item),
+        total,
+        totalWatchTime: watchTime[0]?.total || 0,
+        limit,
+        page,
+        nextCursor: hasMore && last ? encodeCursor(sort, last._sortValue, last._id) : null,
+    };
+};
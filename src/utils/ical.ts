@@ -0,0 +1,84 @@
+// Minimal RFC 5545 writer for all-day events, enough for subscribed calendar feeds
+
+export interface ICalEvent {
+    uid: string; // Must stay the same across feed refreshes so apps update instead of duplicating
+    date: string; // YYYY-MM-DD, an all-day event
+    summary: string;
+    description?: string;
+    lastModified?: Date;
+}
+
+const PRODUCT_ID = "-//CINETIME//Episode Calendar//EN";
+const REFRESH_INTERVAL = "PT6H";
+const MAX_LINE_OCTETS = 75;
+
+const escapeText = (value: string): string =>
+    value
+        .replace(/\\/g, "\\\\")
+        .replace(/;/g, "\\;")
+        .replace(/,/g, "\\,")
+        .replace(/\r?\n/g, "\\n");
+
+// Long lines are split into 75-octet chunks, continuations starting with a space.
+// Splits between characters so multi-byte UTF-8 sequences stay intact.
+const foldLine = (line: string): string => {
+    const chunks: string[] = [];
+    let current = "";
+    let octets = 0;
+
+    for (const char of line) {
+        const size = Buffer.byteLength(char);
+        const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + size > limit) {
+            chunks.push(current);
+            current = "";
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    chunks.push(current);
+
+    return chunks.join("\r\n ");
+};
+
+const formatDate = (date: string): string => date.replace(/-/g, "");
+
+// 20261019T120000Z
+const formatTimestamp = (date: Date): string => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const nextDay = (date: string): string =>
+    new Date(Date.parse(`${date}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+export const buildICalendar = (calendar: { name: string; events: ICalEvent[] }): string => {
+    const now = formatTimestamp(new Date());
+
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        `PRODID:${PRODUCT_ID}`,
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        `X-WR-CALNAME:${escapeText(calendar.name)}`,
+        `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+        `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`
+    ];
+
+    for (const event of calendar.events) {
+        lines.push(
+            "BEGIN:VEVENT",
+            `UID:${event.uid}`,
+            `DTSTAMP:${now}`,
+            `DTSTART;VALUE=DATE:${formatDate(event.date)}`,
+            `DTEND;VALUE=DATE:${formatDate(nextDay(event.date))}`,
+            `SUMMARY:${escapeText(event.summary)}`
+        );
+        if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+        if (event.lastModified) lines.push(`LAST-MODIFIED:${formatTimestamp(event.lastModified)}`);
+        lines.push("TRANSP:TRANSPARENT", "END:VEVENT");
+    }
+
+    lines.push("END:VCALENDAR");
+
+    return lines.map(foldLine).join("\r\n") + "\r\n";
+};
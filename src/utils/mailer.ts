@@ -10,6 +10,15 @@ const transporter = nodemailer.createTransport({
     }
 });
 
+// For user- or admin-supplied text put into an email body
+const escapeHtml = (value: string): string =>
+    value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+
 export const sendOTPEmail = async (to: string, otp: string): Promise<void> => {
     const mailOptions = {
         from: `"CINETIME" <${process.env.EMAIL_USER}>`,
@@ -88,4 +97,162 @@ export const sendPasswordResetEmail = async (to: string, resetUrl: string): Prom
         console.error('Error sending password reset email:', error);
         throw new Error('Failed to send password reset email');
     }
-};
\ No newline at end of file
+};
+export const sendAuthorApprovedEmail = async (to: string, firstname: string): Promise<void> => {
+    const mailOptions = {
+        from: `"CINETIME" <${process.env.EMAIL_USER}>`,
+        to,
+        subject: 'CINETIME - Author Account Approved',
+        html: `
+      <div style="font-family: Arial, sans-serif; max-width: 500px; margin: 0 auto; background: #0f172a; color: #f8fafc; padding: 20px; border-radius: 10px;">
+        <div style="text-align: center; margin-bottom: 20px;">
+          <h1 style="color: #e11d48; margin: 0;">🎬 CINETIME</h1>
+          <p style="color: #94a3b8; margin-top: 5px;">Author Application</p>
+        </div>
+        
+        <div style="background: #1e293b; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <p style="margin: 0 0 15px 0;">Hi ${escapeHtml(firstname)},</p>
+          <p style="margin: 0 0 15px 0;">Good news! Your author account has been <strong style="color: #22c55e;">approved</strong>. You can now log in and start using CINETIME.</p>
+          
+          <div style="text-align: center; margin: 25px 0;">
+            <a href="${process.env.FRONTEND_URL}/login" 
+               style="background: #e11d48; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold; display: inline-block;">
+              Log In
+            </a>
+          </div>
+        </div>
+        
+        <div style="border-top: 1px solid #334155; padding-top: 15px; text-align: center;">
+          <p style="color: #64748b; font-size: 12px; margin: 0;">
+            © ${new Date().getFullYear()} CINETIME. All rights reserved.
+          </p>
+        </div>
+      </div>
+    `
+    };
+
+    await transporter.sendMail(mailOptions);
+};
+
+export const sendAuthorRejectedEmail = async (to: string, firstname: string, reason?: string): Promise<void> => {
+    const mailOptions = {
+        from: `"CINETIME" <${process.env.EMAIL_USER}>`,
+        to,
+        subject: 'CINETIME - Author Application Update',
+        html: `
+      <div style="font-family: Arial, sans-serif; max-width: 500px; margin: 0 auto; background: #0f172a; color: #f8fafc; padding: 20px; border-radius: 10px;">
+        <div style="text-align: center; margin-bottom: 20px;">
+          <h1 style="color: #e11d48; margin: 0;">🎬 CINETIME</h1>
+          <p style="color: #94a3b8; margin-top: 5px;">Author Application</p>
+        </div>
+        
+        <div style="background: #1e293b; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <p style="margin: 0 0 15px 0;">Hi ${escapeHtml(firstname)},</p>
+          <p style="margin: 0 0 15px 0;">Thank you for applying for an author account. Unfortunately your application was not approved.</p>
+          ${reason ? `<p style="margin: 0 0 15px 0; color: #94a3b8;"><strong>Reason:</strong> ${escapeHtml(reason)}</p>` : ''}
+          <p style="color: #94a3b8; font-size: 14px; margin: 15px 0 0 0;">
+            If you believe this was a mistake, please reply to this email.
+          </p>
+        </div>
+        
+        <div style="border-top: 1px solid #334155; padding-top: 15px; text-align: center;">
+          <p style="color: #64748b; font-size: 12px; margin: 0;">
+            © ${new Date().getFullYear()} CINETIME. All rights reserved.
+          </p>
+        </div>
+      </div>
+    `
+    };
+
+    await transporter.sendMail(mailOptions);
+};
+
+export const sendAccountLockedEmail = async (to: string, lockedUntil: Date, context: string, ip?: string): Promise<void> => {
+    const mailOptions = {
+        from: `"CINETIME" <${process.env.EMAIL_USER}>`,
+        to,
+        subject: 'CINETIME - Account Temporarily Locked',
+        html: `
+      <div style="font-family: Arial, sans-serif; max-width: 500px; margin: 0 auto; background: #0f172a; color: #f8fafc; padding: 20px; border-radius: 10px;">
+        <div style="text-align: center; margin-bottom: 20px;">
+          <h1 style="color: #e11d48; margin: 0;">🎬 CINETIME</h1>
+          <p style="color: #94a3b8; margin-top: 5px;">Security Alert</p>
+        </div>
+        
+        <div style="background: #1e293b; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <p style="margin: 0 0 15px 0;">We temporarily locked your account because of ${context}.</p>
+          <p style="margin: 0 0 15px 0;">You can try again after <strong>${lockedUntil.toUTCString()}</strong>.</p>
+          ${ip ? `<p style="color: #94a3b8; font-size: 14px; margin: 0 0 15px 0;">Last attempt came from IP address ${ip}.</p>` : ''}
+          <p style="color: #94a3b8; font-size: 14px; margin: 15px 0 0 0;">
+            If this wasn't you, we recommend resetting your password once the lock expires.
+          </p>
+        </div>
+        
+        <div style="border-top: 1px solid #334155; padding-top: 15px; text-align: center;">
+          <p style="color: #64748b; font-size: 12px; margin: 0;">
+            © ${new Date().getFullYear()} CINETIME. All rights reserved.
+          </p>
+        </div>
+      </div>
+    `
+    };
+
+    await transporter.sendMail(mailOptions);
+};
+
+export const sendEmailChangeOTPEmail = async (to: string, otp: string): Promise<void> => {
+    const mailOptions = {
+        from: `"CINETIME" <${process.env.EMAIL_USER}>`,
+        to,
+        subject: "CINETIME - Confirm Your New Email",
+        html: `
+      <div style="font-family: Arial, sans-serif; max-width: 500px; margin: 0 auto;">
+        <h2>Confirm your new email 🎬</h2>
+        <p>Use this code to confirm this address for your CINETIME account:</p>
+        <h1 style="background: #1a202c; color: white; padding: 15px; text-align: center; border-radius: 8px;">
+          ${otp}
+        </h1>
+        <p>This OTP will expire in 10 minutes.</p>
+        <p>If you didn't request this, please ignore this email.</p>
+        <hr>
+        <p style="color: #666;">© ${new Date().getFullYear()} CINETIME. All rights reserved.</p>
+      </div>
+    `
+    };
+
+    await transporter.sendMail(mailOptions);
+};
+
+export const sendEmailChangedNoticeEmail = async (to: string, newEmail: string): Promise<void> => {
+    const [name, domain] = newEmail.split("@");
+    const maskedEmail = `${name.slice(0, 2)}${"*".repeat(Math.max(name.length - 2, 1))}@${domain}`;
+
+    const mailOptions = {
+        from: `"CINETIME" <${process.env.EMAIL_USER}>`,
+        to,
+        subject: 'CINETIME - Your Email Was Changed',
+        html: `
+      <div style="font-family: Arial, sans-serif; max-width: 500px; margin: 0 auto; background: #0f172a; color: #f8fafc; padding: 20px; border-radius: 10px;">
+        <div style="text-align: center; margin-bottom: 20px;">
+          <h1 style="color: #e11d48; margin: 0;">🎬 CINETIME</h1>
+          <p style="color: #94a3b8; margin-top: 5px;">Security Notice</p>
+        </div>
+        
+        <div style="background: #1e293b; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <p style="margin: 0 0 15px 0;">The email address on your CINETIME account was changed to <strong>${maskedEmail}</strong>.</p>
+          <p style="color: #94a3b8; font-size: 14px; margin: 15px 0 0 0;">
+            If you didn't make this change, please contact support immediately.
+          </p>
+        </div>
+        
+        <div style="border-top: 1px solid #334155; padding-top: 15px; text-align: center;">
+          <p style="color: #64748b; font-size: 12px; margin: 0;">
+            © ${new Date().getFullYear()} CINETIME. All rights reserved.
+          </p>
+        </div>
+      </div>
+    `
+    };
+
+    await transporter.sendMail(mailOptions);
+};
@@ -0,0 +1,25 @@
+import { Response } from "express";
+import { IPrivacySettings, Visibility } from "../models/User";
+
+// Users created before privacy settings existed have no `privacy` object in Mongo
+export const visibilityOf = (privacy: Partial<IPrivacySettings> | undefined, key: keyof IPrivacySettings): Visibility =>
+    privacy?.[key] || Visibility.PRIVATE;
+
+export const effectiveListVisibility = (
+    list: { visibility?: Visibility | null },
+    ownerPrivacy: Partial<IPrivacySettings> | undefined
+): Visibility => list.visibility || visibilityOf(ownerPrivacy, "lists");
+
+export const isValidVisibility = (value: unknown): value is Visibility =>
+    Object.values(Visibility).includes(value as Visibility);
+
+// Link-only pages are reachable but shouldn't end up in search engines
+export const applyVisibilityHeaders = (res: Response, visibility: Visibility): void => {
+    if (visibility !== Visibility.PUBLIC) {
+        res.setHeader("X-Robots-Tag", "noindex");
+    }
+};
+
+// Last name is shortened to an initial wherever other users can see it
+export const displayName = (user: { firstname: string; lastname: string }): string =>
+    `${user.firstname} ${user.lastname ? `${user.lastname.charAt(0)}.` : ""}`.trim();
@@ -0,0 +1,160 @@
+// Parsing and validation of recommendation lists returned by the AI model
+
+export interface AIRecommendation {
+    title: string;
+    type: "movie" | "tv";
+    reason: string;
+    year?: string;
+    keywords: string[];
+    basedOn?: string[]; // History refs ("H1") cited by personalized answers
+}
+
+export class RecommendationParseError extends Error {
+    constructor(message: string, readonly rawText: string) {
+        super(message);
+        this.name = "RecommendationParseError";
+    }
+}
+
+export const MAX_RECOMMENDATIONS = 5;
+
+const TV_TYPES = ["tv", "tv show", "tv series", "series", "show", "miniseries"];
+
+// Models like to wrap JSON in ```json fences or add a sentence around it
+const extractJSONArray = (text: string): string => {
+    const unfenced = text.replace(/```(?:json)?/gi, "").trim();
+    const start = unfenced.indexOf("[");
+    const end = unfenced.lastIndexOf("]");
+
+    if (start === -1 || end === -1 || end < start) {
+        throw new Error("No JSON array found");
+    }
+
+    return unfenced.slice(start, end + 1);
+};
+
+const normalizeRecommendation = (item: any): AIRecommendation | null => {
+    if (!item || typeof item !== "object") return null;
+
+    const title = typeof item.title === "string" ? item.title.trim() : "";
+    if (!title) return null;
+
+    const rawType = typeof item.type === "string" ? item.type.trim().toLowerCase() : "movie";
+    const type = TV_TYPES.includes(rawType) ? "tv" : rawType === "movie" || rawType === "film" ? "movie" : null;
+    if (!type) return null;
+
+    const yearMatch = item.year !== undefined && item.year !== null ? String(item.year).match(/\d{4}/) : null;
+
+    return {
+        title,
+        type,
+        reason: typeof item.reason === "string" ? item.reason.trim() : "",
+        year: yearMatch ? yearMatch[0] : undefined,
+        keywords: Array.isArray(item.keywords)
+            ? item.keywords.filter((keyword: unknown) => typeof keyword === "string" && keyword.trim()).slice(0, 10)
+            : [],
+        basedOn: Array.isArray(item.basedOn)
+            ? item.basedOn.filter((ref: unknown) => typeof ref === "string").map((ref: string) => ref.trim().toUpperCase())
+            : undefined
+    };
+};
+
+// Throws RecommendationParseError when the text holds no usable JSON array.
+// Individual malformed items are dropped rather than failing the whole list.
+export const parseRecommendations = (text: string): AIRecommendation[] => {
+    let parsed: unknown;
+
+    try {
+        parsed = JSON.parse(extractJSONArray(text));
+    } catch (error: any) {
+        throw new RecommendationParseError(`Model output is not a JSON array: ${error.message}`, text);
+    }
+
+    if (!Array.isArray(parsed)) {
+        throw new RecommendationParseError("Model output is not a JSON array", text);
+    }
+
+    return parsed
+        .map(normalizeRecommendation)
+        .filter((item): item is AIRecommendation => item !== null)
+        .slice(0, MAX_RECOMMENDATIONS);
+};
+
+export const buildRepairPrompt = (badOutput: string): string => `
+Your previous reply could not be parsed as JSON. Here it is:
+
+${badOutput.slice(0, 4000)}
+
+Return ONLY a valid JSON array (no markdown, no commentary) where each item has:
+"title" (string), "type" ("movie" or "tv"), "reason" (string), "year" (string, optional), "keywords" (array of strings),
+"basedOn" (array of history refs, only if history was provided).
+If there are no recommendations, return [].
+`;
+
+// Pulls complete items out of the model's JSON array while it is still streaming,
+// so each recommendation can be handled before the whole answer has arrived
+export class RecommendationStreamParser {
+    private buffer = "";
+    private position = 0;
+    private depth = 0; // 1 = inside the top-level array, 2+ = inside one of its items
+    private inString = false;
+    private escaped = false;
+    private itemStart = -1;
+    private closed = false;
+    private found = 0;
+
+    push(chunk: string): AIRecommendation[] {
+        this.buffer += chunk;
+        const items: AIRecommendation[] = [];
+
+        for (; this.position < this.buffer.length && !this.closed; this.position++) {
+            const char = this.buffer[this.position];
+
+            // Quotes only matter inside the array; prose around it may contain stray ones
+            if (this.inString) {
+                if (this.escaped) this.escaped = false;
+                else if (char === "\\") this.escaped = true;
+                else if (char === "\"") this.inString = false;
+                continue;
+            }
+
+            if (char === "\"" && this.depth > 0) {
+                this.inString = true;
+            } else if (char === "[" || char === "{") {
+                if (this.depth === 1) this.itemStart = this.position;
+                this.depth++;
+            } else if ((char === "]" || char === "}") && this.depth > 0) {
+                this.depth--;
+
+                if (this.depth === 1 && this.itemStart !== -1) {
+                    const item = this.parseItem(this.buffer.slice(this.itemStart, this.position + 1));
+                    this.itemStart = -1;
+                    if (item && this.found < MAX_RECOMMENDATIONS) {
+                        items.push(item);
+                        this.found++;
+                    }
+                } else if (this.depth === 0) {
+                    this.closed = true;
+                }
+            }
+        }
+
+        return items;
+    }
+
+    get count(): number {
+        return this.found;
+    }
+
+    get text(): string {
+        return this.buffer;
+    }
+
+    private parseItem(json: string): AIRecommendation | null {
+        try {
+            return normalizeRecommendation(JSON.parse(json));
+        } catch {
+            return null;
+        }
+    }
+}
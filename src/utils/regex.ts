@@ -0,0 +1,2 @@
+// Makes user input safe to embed in a RegExp as a literal
+export const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
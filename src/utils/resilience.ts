@@ -0,0 +1,142 @@
+import { Response } from "express";
+
+// Building blocks for calling flaky third-party APIs (TMDB, ...)
+
+export class UpstreamUnavailable extends Error {
+    readonly upstream: string;
+    readonly retryAfterMs?: number;
+
+    constructor(upstream: string, message: string, retryAfterMs?: number) {
+        super(message);
+        this.name = "UpstreamUnavailable";
+        this.upstream = upstream;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+export const sendUpstreamUnavailable = (res: Response, err: UpstreamUnavailable): void => {
+    if (err.retryAfterMs) {
+        res.setHeader("Retry-After", Math.ceil(err.retryAfterMs / 1000).toString());
+    }
+
+    res.status(503).json({
+        message: `${err.upstream} is temporarily unavailable. Please try again shortly.`,
+        upstream: err.upstream
+    });
+};
+
+export const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Full jitter: random delay in [0, base * 2^attempt], capped
+export const backoffDelay = (attempt: number, baseMs: number = 300, maxMs: number = 5000): number =>
+    Math.floor(Math.random() * Math.min(maxMs, baseMs * 2 ** attempt));
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (header: unknown): number | null => {
+    if (header === undefined || header === null || header === "") return null;
+
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(String(header));
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+
+    return null;
+};
+
+// Caps how many tasks run at once; the rest wait in FIFO order
+export class Semaphore {
+    private active = 0;
+    private queue: Array<() => void> = [];
+
+    constructor(private readonly limit: number) {}
+
+    async run<T>(task: () => Promise<T>): Promise<T> {
+        if (this.active >= this.limit) {
+            // The finishing task hands over its slot, so `active` already counts this one
+            await new Promise<void>((resolve) => this.queue.push(resolve));
+        } else {
+            this.active++;
+        }
+
+        try {
+            return await task();
+        } finally {
+            const next = this.queue.shift();
+            if (next) {
+                next();
+            } else {
+                this.active--;
+            }
+        }
+    }
+
+    get pending(): number {
+        return this.queue.length;
+    }
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+// Opens after `threshold` consecutive failures, then lets a single trial request
+// through once `cooldownMs` has passed. The trial's outcome closes or re-opens it.
+export class CircuitBreaker {
+    private state: CircuitState = "closed";
+    private consecutiveFailures = 0;
+    private openedAt = 0;
+    private trialInFlight = false;
+
+    constructor(
+        private readonly name: string,
+        private readonly threshold: number = 5,
+        private readonly cooldownMs: number = 30000
+    ) {}
+
+    allowRequest(): boolean {
+        if (this.state === "closed") return true;
+
+        if (this.state === "open" && Date.now() - this.openedAt >= this.cooldownMs) {
+            this.state = "half-open";
+        }
+
+        if (this.state === "half-open" && !this.trialInFlight) {
+            this.trialInFlight = true;
+            return true;
+        }
+
+        return false;
+    }
+
+    recordSuccess(): void {
+        if (this.state !== "closed") {
+            console.log(`✅ ${this.name} circuit closed`);
+        }
+
+        this.state = "closed";
+        this.consecutiveFailures = 0;
+        this.trialInFlight = false;
+    }
+
+    recordFailure(): void {
+        this.consecutiveFailures++;
+        this.trialInFlight = false;
+
+        if (this.state === "half-open" || this.consecutiveFailures >= this.threshold) {
+            if (this.state !== "open") {
+                console.warn(`⚠️ ${this.name} circuit opened after ${this.consecutiveFailures} failures`);
+            }
+            this.state = "open";
+            this.openedAt = Date.now();
+        }
+    }
+
+    // Time until a trial request will be allowed
+    get retryAfterMs(): number {
+        if (this.state !== "open") return 0;
+        return Math.max(0, this.cooldownMs - (Date.now() - this.openedAt));
+    }
+
+    get status(): { state: CircuitState; consecutiveFailures: number } {
+        return { state: this.state, consecutiveFailures: this.consecutiveFailures };
+    }
+}
@@ -0,0 +1,156 @@
+import { Request } from "express";
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { IUser } from "../models/User";
+import { ISession, Session, SessionRevokeReason } from "../models/Session";
+import { REFRESH_TOKEN_TTL_MS, signAccessToken, signRefreshToken } from "./tokens";
+
+export interface IssuedTokens {
+    accessToken: string;
+    refreshToken: string;
+    session: ISession;
+}
+
+export class RefreshTokenError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "RefreshTokenError";
+    }
+}
+
+// Access tokens carry their family id as `sid`, so signing out ends them too.
+// Live families are cached briefly to keep the lookup off most requests; a
+// revocation made on another instance takes up to this long to reach this one.
+const ACTIVE_SESSION_CACHE_MS = 30 * 1000;
+const MAX_CACHED_SESSIONS = 10000;
+
+const activeSessions = new Map<string, { userId: string; expiresAt: number }>();
+
+export const forgetCachedSessions = (userId: string | mongoose.Types.ObjectId, exceptFamilyId?: string): void => {
+    const id = userId.toString();
+    for (const [familyId, entry] of activeSessions) {
+        if (entry.userId === id && familyId !== exceptFamilyId) {
+            activeSessions.delete(familyId);
+        }
+    }
+};
+
+const describeDevice = (req: Request): string => {
+    const label = typeof req.body?.device === "string" ? req.body.device.trim() : "";
+    if (label) return label.slice(0, 100);
+
+    const userAgent = req.headers["user-agent"];
+    return userAgent ? userAgent.slice(0, 100) : "Unknown device";
+};
+
+// Starts a new refresh token family for a fresh login
+export const startSession = async (user: IUser, req: Request): Promise<IssuedTokens> => {
+    const familyId = crypto.randomUUID();
+    const jti = crypto.randomUUID();
+
+    const session = await Session.create({
+        user: user._id,
+        familyId,
+        currentJti: jti,
+        device: describeDevice(req),
+        ip: req.ip,
+        userAgent: req.headers["user-agent"],
+        lastUsedAt: new Date(),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+    });
+
+    return {
+        accessToken: signAccessToken(user, familyId),
+        refreshToken: signRefreshToken(user, familyId, jti),
+        session
+    };
+};
+
+// Exchanges the current refresh token of a family for a new one.
+// Presenting any older token from the family revokes the whole family.
+export const rotateSession = async (user: IUser, familyId: string, jti: string, req: Request): Promise<IssuedTokens> => {
+    const session = await Session.findOne({ familyId, user: user._id });
+
+    if (!session || session.revokedAt) {
+        throw new RefreshTokenError("Session has been revoked");
+    }
+
+    if (session.currentJti !== jti) {
+        session.revokedAt = new Date();
+        session.revokedReason = "reuse_detected";
+        await session.save();
+        activeSessions.delete(familyId);
+
+        console.warn(`⚠️ Refresh token reuse detected for user ${user._id}, family ${familyId} revoked`);
+        throw new RefreshTokenError("Refresh token reuse detected");
+    }
+
+    const nextJti = crypto.randomUUID();
+
+    // Guard against two concurrent refreshes both winning with the same token
+    const rotated = await Session.findOneAndUpdate(
+        { _id: session._id, currentJti: jti, revokedAt: { $exists: false } },
+        {
+            currentJti: nextJti,
+            lastUsedAt: new Date(),
+            ip: req.ip,
+            expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+        },
+        { new: true }
+    );
+
+    if (!rotated) {
+        throw new RefreshTokenError("Refresh token reuse detected");
+    }
+
+    return {
+        accessToken: signAccessToken(user, familyId),
+        refreshToken: signRefreshToken(user, familyId, nextJti),
+        session: rotated
+    };
+};
+
+export const revokeSession = async (
+    userId: string | mongoose.Types.ObjectId,
+    familyId: string,
+    reason: SessionRevokeReason
+): Promise<boolean> => {
+    const result = await Session.updateOne(
+        { user: userId, familyId, revokedAt: { $exists: false } },
+        { revokedAt: new Date(), revokedReason: reason }
+    );
+    activeSessions.delete(familyId);
+    return result.modifiedCount > 0;
+};
+
+export const revokeAllSessions = async (
+    userId: string | mongoose.Types.ObjectId,
+    reason: SessionRevokeReason,
+    exceptFamilyId?: string
+): Promise<number> => {
+    const filter: any = { user: userId, revokedAt: { $exists: false } };
+    if (exceptFamilyId) {
+        filter.familyId = { $ne: exceptFamilyId };
+    }
+
+    const result = await Session.updateMany(filter, { revokedAt: new Date(), revokedReason: reason });
+    forgetCachedSessions(userId, exceptFamilyId);
+    return result.modifiedCount;
+};
+
+export const isSessionActive = async (userId: string, familyId: string): Promise<boolean> => {
+    const cached = activeSessions.get(familyId);
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.userId === userId;
+    }
+    activeSessions.delete(familyId);
+
+    const session = await Session.exists({ familyId, user: userId, revokedAt: { $exists: false } });
+    if (!session) return false;
+
+    if (activeSessions.size >= MAX_CACHED_SESSIONS) {
+        activeSessions.clear();
+    }
+    activeSessions.set(familyId, { userId, expiresAt: Date.now() + ACTIVE_SESSION_CACHE_MS });
+    return true;
+};
@@ -0,0 +1,168 @@
+import { Response } from "express";
+import { AuthThrottle } from "../models/AuthThrottle";
+import { sendAccountLockedEmail } from "./mailer";
+
+export type ThrottleScope = "login" | "otp" | "reset" | "resend" | "twofactor";
+
+interface ThrottlePolicy {
+    maxAttempts: number; // Failures allowed inside one window
+    windowMs: number;
+    baseLockMs: number; // First lockout, doubled on every repeat
+    maxLockMs: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const MEMORY_MS = 24 * HOUR; // How long a quiet key keeps its backoff level
+
+const POLICIES: Record<ThrottleScope, { account: ThrottlePolicy; ip: ThrottlePolicy }> = {
+    login: {
+        account: { maxAttempts: 5, windowMs: 15 * MINUTE, baseLockMs: 15 * MINUTE, maxLockMs: 24 * HOUR },
+        ip: { maxAttempts: 20, windowMs: 15 * MINUTE, baseLockMs: 15 * MINUTE, maxLockMs: 24 * HOUR }
+    },
+    otp: {
+        account: { maxAttempts: 5, windowMs: 10 * MINUTE, baseLockMs: 15 * MINUTE, maxLockMs: 24 * HOUR },
+        ip: { maxAttempts: 20, windowMs: 10 * MINUTE, baseLockMs: 15 * MINUTE, maxLockMs: 24 * HOUR }
+    },
+    twofactor: {
+        account: { maxAttempts: 5, windowMs: 15 * MINUTE, baseLockMs: 15 * MINUTE, maxLockMs: 24 * HOUR },
+        ip: { maxAttempts: 20, windowMs: 15 * MINUTE, baseLockMs: 15 * MINUTE, maxLockMs: 24 * HOUR }
+    },
+    // Reset and resend count every request, not just failures
+    reset: {
+        account: { maxAttempts: 3, windowMs: HOUR, baseLockMs: HOUR, maxLockMs: 24 * HOUR },
+        ip: { maxAttempts: 10, windowMs: HOUR, baseLockMs: HOUR, maxLockMs: 24 * HOUR }
+    },
+    resend: {
+        account: { maxAttempts: 5, windowMs: HOUR, baseLockMs: HOUR, maxLockMs: 24 * HOUR },
+        ip: { maxAttempts: 15, windowMs: HOUR, baseLockMs: HOUR, maxLockMs: 24 * HOUR }
+    }
+};
+
+const LOCKOUT_CONTEXT: Record<ThrottleScope, string> = {
+    login: "too many failed sign-in attempts",
+    otp: "too many incorrect verification codes",
+    twofactor: "too many incorrect two-factor codes",
+    reset: "too many password reset requests",
+    resend: "too many verification code requests"
+};
+
+const accountKey = (scope: ThrottleScope, email: string): string =>
+    `${scope}:account:${String(email).trim().toLowerCase()}`;
+
+const ipKey = (scope: ThrottleScope, ip?: string): string => `${scope}:ip:${ip || "unknown"}`;
+
+// Both steps are single atomic updates, so concurrent failures can't overwrite
+// each other's counts and only one of them applies the lockout
+const recordFailure = async (key: string, policy: ThrottlePolicy): Promise<Date | null> => {
+    const now = new Date();
+
+    // A window that has run out starts again at this failure
+    const windowExpired = {
+        $or: [
+            { $eq: [{ $ifNull: ["$windowStart", null] }, null] },
+            { $gt: [{ $subtract: [now, "$windowStart"] }, policy.windowMs] }
+        ]
+    };
+
+    const entry = await AuthThrottle.findOneAndUpdate(
+        { key },
+        [
+            {
+                $set: {
+                    failures: { $add: [{ $cond: [windowExpired, 0, { $ifNull: ["$failures", 0] }] }, 1] },
+                    windowStart: { $cond: [windowExpired, now, "$windowStart"] },
+                    lockouts: { $ifNull: ["$lockouts", 0] },
+                    expiresAt: { $add: [{ $max: [{ $ifNull: ["$lockedUntil", now] }, now] }, MEMORY_MS] }
+                }
+            }
+        ],
+        { upsert: true, new: true }
+    );
+
+    if (!entry || entry.failures < policy.maxAttempts) return null;
+
+    const lockUntil = {
+        $add: [now, { $min: [{ $multiply: [policy.baseLockMs, { $pow: [2, "$lockouts"] }] }, policy.maxLockMs] }]
+    };
+
+    const locked = await AuthThrottle.findOneAndUpdate(
+        { key, failures: { $gte: policy.maxAttempts } },
+        [
+            {
+                $set: {
+                    lockedUntil: lockUntil,
+                    expiresAt: { $add: [lockUntil, MEMORY_MS] },
+                    lockouts: { $add: ["$lockouts", 1] },
+                    failures: 0,
+                    windowStart: now
+                }
+            }
+        ],
+        { new: true }
+    );
+
+    return locked?.lockedUntil || null;
+};
+
+// Returns when the account or IP is locked until, or null when requests may proceed
+export const checkAuthThrottle = async (scope: ThrottleScope, email: string, ip?: string): Promise<Date | null> => {
+    const locked = await AuthThrottle.find({
+        key: { $in: [accountKey(scope, email), ipKey(scope, ip)] },
+        lockedUntil: { $gt: new Date() }
+    }).lean();
+
+    if (locked.length === 0) return null;
+
+    return new Date(Math.max(...locked.map((entry) => entry.lockedUntil!.getTime())));
+};
+
+// Counts a failed attempt against both the account and the IP. When the account
+// gets locked and `ownerEmail` is known, the owner is told about it.
+export const recordAuthFailure = async (
+    scope: ThrottleScope,
+    email: string,
+    ip?: string,
+    ownerEmail?: string
+): Promise<Date | null> => {
+    const policy = POLICIES[scope];
+
+    const [accountLock, ipLock] = await Promise.all([
+        recordFailure(accountKey(scope, email), policy.account),
+        recordFailure(ipKey(scope, ip), policy.ip)
+    ]);
+
+    if (accountLock) {
+        console.warn(`🔒 ${scope} locked for ${email} until ${accountLock.toISOString()}`);
+
+        if (ownerEmail) {
+            try {
+                await sendAccountLockedEmail(ownerEmail, accountLock, LOCKOUT_CONTEXT[scope], ip);
+            } catch (error) {
+                console.error("Failed to send lockout email:", error);
+            }
+        }
+    }
+
+    if (ipLock) {
+        console.warn(`🔒 ${scope} locked for IP ${ip} until ${ipLock.toISOString()}`);
+    }
+
+    if (!accountLock && !ipLock) return null;
+    return new Date(Math.max(accountLock?.getTime() || 0, ipLock?.getTime() || 0));
+};
+
+export const clearAuthFailures = async (scope: ThrottleScope, email: string): Promise<void> => {
+    await AuthThrottle.updateOne({ key: accountKey(scope, email) }, { failures: 0 });
+};
+
+export const sendTooManyAttempts = (res: Response, lockedUntil: Date): void => {
+    const retryAfter = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000));
+
+    res.setHeader("Retry-After", retryAfter.toString());
+    res.status(429).json({
+        message: "Too many attempts. Please try again later.",
+        retryAfter,
+        lockedUntil
+    });
+};
@@ -5,24 +5,66 @@ dotenv.config();
 
 const JWT_SECRET = process.env.JWT_SECRET as string;
 const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET as string;
+// Separate key so a 2FA challenge can never pass `authenticate` as an access token
+const JWT_2FA_SECRET = process.env.JWT_2FA_SECRET || `${JWT_SECRET}:2fa`;
 
-export const signAccessToken = (user: IUser): string => {
+export const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export interface RefreshTokenPayload {
+    sub: string;
+    fam: string;
+    jti: string;
+}
+
+export const signAccessToken = (user: IUser, sessionId?: string): string => {
     return jwt.sign(
         {
             sub: user._id.toString(),
-            roles: user.roles
+            roles: user.roles,
+            ...(sessionId ? { sid: sessionId } : {})
         },
         JWT_SECRET,
         { expiresIn: "30m" }
     );
 };
 
-export const signRefreshToken = (user: IUser): string => {
+export const signRefreshToken = (user: IUser, familyId: string, jti: string): string => {
     return jwt.sign(
         {
-            sub: user._id.toString()
+            sub: user._id.toString(),
+            fam: familyId
         },
         JWT_REFRESH_SECRET,
-        { expiresIn: "7d" }
+        { expiresIn: "7d", jwtid: jti }
+    );
+};
+
+export const verifyRefreshToken = (token: string): RefreshTokenPayload => {
+    const payload: any = jwt.verify(token, JWT_REFRESH_SECRET);
+
+    if (!payload?.sub || !payload?.fam || !payload?.jti) {
+        throw new Error("Malformed refresh token");
+    }
+
+    return { sub: payload.sub, fam: payload.fam, jti: payload.jti };
+};
+
+export const signTwoFactorChallenge = (user: IUser): string => {
+    return jwt.sign(
+        {
+            sub: user._id.toString()
+        },
+        JWT_2FA_SECRET,
+        { expiresIn: "5m" }
     );
-};
\ No newline at end of file
+};
+
+export const verifyTwoFactorChallenge = (token: string): { sub: string } => {
+    const payload: any = jwt.verify(token, JWT_2FA_SECRET);
+
+    if (!payload?.sub) {
+        throw new Error("Malformed challenge token");
+    }
+
+    return { sub: payload.sub };
+};
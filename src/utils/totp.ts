@@ -0,0 +1,117 @@
+import crypto from "crypto";
+
+// RFC 6238 TOTP (SHA-1, 6 digits, 30 second steps), compatible with common authenticator apps
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const ISSUER = "CINETIME";
+
+const base32Encode = (buffer: Buffer): string => {
+    let bits = 0;
+    let value = 0;
+    let output = "";
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+    const cleaned = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error("Invalid base32 secret");
+        }
+
+        value = (value << 5) | index;
+        bits += 5;
+
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+
+    return Buffer.from(bytes);
+};
+
+const hotp = (key: Buffer, counter: number): string => {
+    const message = Buffer.alloc(8);
+    message.writeBigUInt64BE(BigInt(counter));
+
+    const hmac = crypto.createHmac("sha1", key).update(message).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const code =
+        ((hmac[offset] & 0x7f) << 24) |
+        (hmac[offset + 1] << 16) |
+        (hmac[offset + 2] << 8) |
+        hmac[offset + 3];
+
+    return (code % 10 ** DIGITS).toString().padStart(DIGITS, "0");
+};
+
+export const currentTOTPStep = (): number => Math.floor(Date.now() / 1000 / STEP_SECONDS);
+
+export const generateTOTPSecret = (): string => base32Encode(crypto.randomBytes(20));
+
+export const buildOtpauthURI = (secret: string, accountName: string): string => {
+    const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer: ISSUER,
+        algorithm: "SHA1",
+        digits: DIGITS.toString(),
+        period: STEP_SECONDS.toString()
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+// Returns the matching time step (to block replays) or null. Allows one step of clock drift.
+export const verifyTOTP = (secret: string, code: string, window: number = 1): number | null => {
+    const normalized = String(code || "").replace(/\s/g, "");
+    if (!/^\d{6}$/.test(normalized)) return null;
+
+    const key = base32Decode(secret);
+    const step = currentTOTPStep();
+
+    for (let drift = -window; drift <= window; drift++) {
+        const candidate = hotp(key, step + drift);
+        if (crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(normalized))) {
+            return step + drift;
+        }
+    }
+
+    return null;
+};
+
+export const hashRecoveryCode = (code: string): string =>
+    crypto.createHash("sha256").update(code.trim().toLowerCase()).digest("hex");
+
+// Plain codes are shown to the user once; only the hashes are stored
+export const generateRecoveryCodes = (count: number = 10): { codes: string[]; hashes: string[] } => {
+    const codes = Array.from({ length: count }, () => {
+        const raw = crypto.randomBytes(5).toString("hex");
+        return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    return { codes, hashes: codes.map(hashRecoveryCode) };
+};